@@ -38,6 +38,22 @@ import {
   setVerboseMode,
 } from "./src/utils/logger";
 import { prompt } from "./src/utils/prompt";
+import {
+  getFilesDir,
+  getMediaDir,
+  getQueueDbPath,
+} from "./src/utils/layout.js";
+import {
+  parseNameTemplate,
+  renderFileName,
+  templateFromPrefix,
+  type NameFields,
+} from "./src/utils/naming.js";
+import {
+  countMedia,
+  getMediaType,
+  type MediaCounts,
+} from "./src/utils/media.js";
 import {
   initProgressBars,
   addJsonProgressTask,
@@ -50,15 +66,34 @@ import {
 import {
   cleanupAfterPromptExit,
   fetchSearchResults,
-  findExistingPdfFile,
+  findExistingDownload,
   promptForCleanup,
+  removeStalePartFiles,
   showConfiguration,
   showDisclaimerAndVerifyAge,
   showDownloadSummary,
   showHeader,
   type SearchResult,
 } from "./src/utils/helpers";
-import { Coordinator } from "./src/workers/index.js";
+import {
+  AUTO_MAX_WORKERS,
+  Coordinator,
+  DEFAULT_RATE_LIMITS,
+  DocumentCatalog,
+  TASK_LEASE_MS,
+  TASK_STATUS_NAMES,
+  TaskQueue,
+  createRetryPolicy,
+  readRetryConfig,
+  type RateLimits,
+  type RetryPolicy,
+  type TaskStatus,
+  type WorkerIsolation,
+} from "./src/workers/index.js";
+import { retryFailedDownloads } from "./src/commands/retry.js";
+import { exportTasks, type ExportFormat } from "./src/commands/export.js";
+import { showAllSearches, showSearchStatus } from "./src/commands/status.js";
+import { migrateLayout } from "./src/commands/migrate-layout.js";
 
 // ============================================================================
 // SECTION 2: CONSTANTS & CONFIGURATION
@@ -72,6 +107,10 @@ const USE_DEFAULT_DIR = process.env.USE_DEFAULT_DIR === "true";
 const DEFAULT_DOWNLOAD_DIR = "./downloads";
 const PREFIX_MODES: PrefixMode[] = ["none", "page", "custom"];
 
+/** File name choices of interactive mode: a prefix mode or a template */
+type FileNameMode = PrefixMode | "template";
+const ISOLATION_MODES: WorkerIsolation[] = ["process", "thread"];
+
 function parseAgeCheck(value: unknown): boolean | undefined {
   if (value === undefined || value === null) {
     return undefined;
@@ -137,10 +176,110 @@ function normalizePrefixMode(
   return normalized;
 }
 
+function normalizeIsolation(value: string | undefined): WorkerIsolation {
+  const normalized = (value || "process").toLowerCase() as WorkerIsolation;
+  if (!ISOLATION_MODES.includes(normalized)) {
+    console.error(
+      chalk.red("Error: --isolation must be one of: process, thread"),
+    );
+    process.exit(1);
+  }
+
+  return normalized;
+}
+
+/** Worker count, or "auto" for adaptive scaling */
+type WorkerCount = number | "auto";
+
+/**
+ * Parse --workers: a number from 1-10 or "auto".
+ */
+function parseWorkerCount(value: string | undefined): WorkerCount {
+  const normalized = (value || "4").trim().toLowerCase();
+  if (normalized === "auto") {
+    return "auto";
+  }
+
+  const workers = parseInt(normalized, 10);
+  if (isNaN(workers) || workers < 1) {
+    console.error(
+      chalk.red('Error: --workers must be a number from 1-10 or "auto"'),
+    );
+    process.exit(1);
+  }
+
+  return workers;
+}
+
+/**
+ * Parse --rate and --max-downloads (0 = unlimited).
+ */
+function parseRateLimits(options: Record<string, any>): RateLimits {
+  const requestsPerSecond = parseFloat(
+    options.rate ?? String(DEFAULT_RATE_LIMITS.requestsPerSecond),
+  );
+  const maxConcurrentDownloads = parseInt(
+    options.maxDownloads ?? String(DEFAULT_RATE_LIMITS.maxConcurrentDownloads),
+    10,
+  );
+
+  if (isNaN(requestsPerSecond) || requestsPerSecond < 0) {
+    console.error(chalk.red("Error: --rate must be a number >= 0"));
+    process.exit(1);
+  }
+  if (isNaN(maxConcurrentDownloads) || maxConcurrentDownloads < 0) {
+    console.error(chalk.red("Error: --max-downloads must be a number >= 0"));
+    process.exit(1);
+  }
+
+  return { requestsPerSecond, maxConcurrentDownloads };
+}
+
+/** Retry flags and the policy field each one sets */
+const RETRY_FLAGS: Array<[string, string, keyof RetryPolicy]> = [
+  ["retryAttempts", "--retry-attempts", "maxAttempts"],
+  ["retryDelay", "--retry-delay", "baseDelayMs"],
+  ["retryMaxDelay", "--retry-max-delay", "maxDelayMs"],
+  ["retryJitter", "--retry-jitter", "jitter"],
+];
+
+/**
+ * Build the retry policy: --retry-* flags override --retry-config, which
+ * overrides the defaults.
+ */
+function parseRetryPolicy(options: Record<string, any>): RetryPolicy {
+  try {
+    const overrides = options.retryConfig
+      ? readRetryConfig(options.retryConfig)
+      : {};
+
+    for (const [optionKey, flag, field] of RETRY_FLAGS) {
+      if (options[optionKey] === undefined) {
+        continue;
+      }
+      const value = Number(options[optionKey]);
+      if (isNaN(value)) {
+        console.error(chalk.red(`Error: ${flag} must be a number`));
+        process.exit(1);
+      }
+      overrides[field] = value;
+    }
+
+    return createRetryPolicy(overrides);
+  } catch (error: any) {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exit(1);
+  }
+}
+
 function getDefaultPrefixMode(
   prefixMode: string | undefined,
   customPrefix: string | undefined,
-): PrefixMode {
+  nameTemplate: string | undefined,
+): FileNameMode {
+  if (nameTemplate) {
+    return "template";
+  }
   if (prefixMode) {
     return normalizePrefixMode(prefixMode, "none");
   }
@@ -150,18 +289,94 @@ function getDefaultPrefixMode(
   return "none";
 }
 
-function getPrefixForPage(
-  prefixMode: PrefixMode,
-  customPrefix: string | undefined,
-  page: number,
-): string | undefined {
-  if (prefixMode === "custom") {
-    return customPrefix;
+/**
+ * File name template from --name-template, or from --prefix-mode and
+ * --prefix, which are shorthands for one
+ * Every template is checked here, before any worker starts: workers exit on
+ * an invalid one, which would only use up their restart budget.
+ */
+function resolveNameTemplate(options: Record<string, any>): string {
+  if (options.nameTemplate) {
+    if (options.prefixMode || options.prefix) {
+      console.error(
+        chalk.red(
+          "Error: --name-template cannot be combined with --prefix-mode or --prefix",
+        ),
+      );
+      process.exit(1);
+    }
+
+    try {
+      return parseNameTemplate(options.nameTemplate);
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(1);
+    }
+  }
+
+  const prefixMode = normalizePrefixMode(
+    options.prefixMode,
+    options.prefix ? "custom" : "none",
+  );
+  if (prefixMode === "custom" && !options.prefix) {
+    console.error(
+      chalk.red("Error: --prefix is required when --prefix-mode is custom"),
+    );
+    process.exit(1);
+  }
+
+  try {
+    return parseNameTemplate(
+      templateFromPrefix(prefixMode, options.prefix),
+      "--prefix",
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exit(1);
+  }
+}
+
+function parsePageList(value: string | undefined): number[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const pages = value.split(",").map((page) => parseInt(page.trim(), 10));
+  if (pages.some((page) => isNaN(page) || page < 1)) {
+    console.error(
+      chalk.red("Error: --page must be a comma-separated list of page numbers"),
+    );
+    process.exit(1);
   }
-  if (prefixMode === "page") {
-    return String(page);
+
+  return pages;
+}
+
+/**
+ * Parse a comma-separated list of task status names (e.g. "failed,pending").
+ */
+function parseStatusList(value: string | undefined): TaskStatus[] | undefined {
+  if (!value) {
+    return undefined;
   }
-  return undefined;
+
+  const names = Object.entries(TASK_STATUS_NAMES);
+  const statuses: TaskStatus[] = [];
+
+  for (const name of value.split(",").map((part) => part.trim())) {
+    const match = names.find(([, statusName]) => statusName === name);
+    if (!match) {
+      console.error(
+        chalk.red(
+          `Error: Invalid status "${name}". Use: ${names.map(([, statusName]) => statusName).join(", ")}`,
+        ),
+      );
+      process.exit(1);
+    }
+    statuses.push(Number(match[0]) as TaskStatus);
+  }
+
+  return statuses;
 }
 
 /** Commander.js program instance */
@@ -173,21 +388,52 @@ installConsoleBridge();
 // SECTION 3: PDF DOWNLOAD LOGIC
 // ============================================================================
 
+/**
+ * `.part` files the parallel queue of a search term can resume (an empty set
+ * without a queue, null if the queue cannot be read)
+ */
+function getResumablePartNames(
+  baseDirectory: string,
+  searchTerm: string,
+): Set<string> | null {
+  if (!fs.existsSync(getQueueDbPath(baseDirectory, searchTerm))) {
+    return new Set();
+  }
+
+  try {
+    const queue = new TaskQueue(baseDirectory, searchTerm, { readonly: true });
+    try {
+      return queue.getPartialNames();
+    } finally {
+      queue.close();
+    }
+  } catch (error: any) {
+    logger.debug(
+      chalk.yellow(
+        `Could not read the queue for .part files: ${error.message}`,
+      ),
+    );
+    return null;
+  }
+}
+
 /**
  * Downloads PDFs from JSON search results with deduplication support.
  *
  * Features:
+ * - Skips documents the catalog already has on disk (from any search term)
  * - Checks for existing files by filename AND size to prevent duplicates
- * - Renames existing files if prefix doesn't match current preference
- * - Applies prefix based on selected prefix mode
+ * - Renames existing files if their name doesn't match the name template
+ * - Names files with the name template
  * - Tracks download progress via callback
  * - Respects rate limits with delays between downloads
  *
  * @param jsonData - Search results containing PDF metadata
  * @param searchTerm - The search query (for directory structure)
  * @param baseDirectory - Base download directory
- * @param pageNumber - Current page number (used for default prefix)
- * @param prefix - Resolved prefix for this page (if any)
+ * @param pageNumber - Current page number (for the {page} placeholder)
+ * @param nameTemplate - File name template
+ * @param mediaCounts - Downloads per media type, updated as files complete
  * @param onProgress - Optional callback for progress updates
  * @returns Success and failure counts
  */
@@ -196,7 +442,8 @@ async function downloadPdfsFromJson(
   searchTerm: string,
   baseDirectory: string,
   pageNumber: number,
-  prefix: string | undefined,
+  nameTemplate: string,
+  mediaCounts: MediaCounts,
   onProgress?: (current: number, total: number) => void,
 ): Promise<{ successCount: number; failCount: number }> {
   const pdfs = jsonData.hits?.hits || [];
@@ -206,12 +453,38 @@ async function downloadPdfsFromJson(
     return { successCount: 0, failCount: 0 };
   }
 
-  // Create PDF directory: {baseDirectory}/{searchTerm}/pdfs/
-  const pdfOutputDir = path.join(baseDirectory, searchTerm, "pdfs");
+  // Same folder as parallel mode: {baseDirectory}/files/{searchTerm}/
+  const pdfOutputDir = getFilesDir(baseDirectory, searchTerm);
   if (!fs.existsSync(pdfOutputDir)) {
     fs.mkdirSync(pdfOutputDir, { recursive: true });
   }
 
+  // Sequential mode downloads one file at a time, so leftovers are stale,
+  // unless the parallel queue can resume them or a parallel run may still
+  // be writing them
+  const resumableParts = getResumablePartNames(baseDirectory, searchTerm);
+  if (resumableParts) {
+    removeStalePartFiles(pdfOutputDir, resumableParts, TASK_LEASE_MS);
+  }
+
+  // Shared with parallel mode, documents are only downloaded once across
+  // search terms
+  const catalog = new DocumentCatalog(baseDirectory);
+  catalog.recordDocuments(
+    pdfs.flatMap((pdf) =>
+      pdf._source?.ORIGIN_FILE_NAME && pdf._source.ORIGIN_FILE_URI
+        ? [
+            {
+              pdfName: pdf._source.ORIGIN_FILE_NAME,
+              pdfUrl: pdf._source.ORIGIN_FILE_URI,
+              fileSize: pdf._source.fileSize || 0,
+            },
+          ]
+        : [],
+    ),
+    searchTerm,
+  );
+
   let successCount = 0;
   let failCount = 0;
 
@@ -234,42 +507,94 @@ async function downloadPdfsFromJson(
     }
 
     try {
-      // Determine target filename with prefix
-      const targetFileName = prefix ? `${prefix}-${fileName}` : fileName;
-      const targetFilePath = path.join(pdfOutputDir, targetFileName);
+      // Already downloaded, possibly for another search term
+      const cataloged = catalog.findDownloaded({
+        pdfName: fileName,
+        pdfUrl: fileUrl,
+        fileSize: fileSize || 0,
+      });
+      if (cataloged) {
+        console.log(
+          chalk.gray(`  Skipping (already downloaded): ${cataloged.localPath}`),
+        );
+        successCount++;
+        countMedia(mediaCounts, getMediaType(cataloged.localPath!));
+        if (onProgress) onProgress(i + 1, totalPdfs);
+        continue;
+      }
 
-      // Check if file already exists (by name and size)
-      const existingFile = findExistingPdfFile(
+      // Determine target filename from the name template
+      const nameFields: NameFields = {
         fileName,
-        pdfOutputDir,
+        pageNumber,
+        searchTerm,
+        index: i + 1,
         fileSize,
-        prefix,
+        source: pdf._source,
+      };
+      const targetFileName = renderFileName(nameTemplate, nameFields);
+
+      // Check if file already exists (named by the template, same size), in
+      // the files folder or a media folder
+      const existingFile = findExistingDownload(
+        baseDirectory,
+        nameTemplate,
+        nameFields,
       );
 
       if (existingFile) {
         // File exists with correct size
+        const existingDir = path.dirname(existingFile.filePath);
         if (existingFile.needsRename) {
-          // Rename to match current prefix preference
-          fs.renameSync(existingFile.filePath, targetFilePath);
+          // Rename to match the current name template
+          fs.renameSync(
+            existingFile.filePath,
+            path.join(existingDir, existingFile.targetName),
+          );
           console.log(
             chalk.gray(
-              `  Renamed: ${path.basename(existingFile.filePath)} → ${targetFileName}`,
+              `  Renamed: ${path.basename(existingFile.filePath)} → ${existingFile.targetName}`,
             ),
           );
         } else {
           console.log(
-            chalk.gray(`  Skipping (already exists): ${targetFileName}`),
+            chalk.gray(
+              `  Skipping (already exists): ${existingFile.targetName}`,
+            ),
           );
         }
+        recordInCatalog(() =>
+          catalog.markDownloaded(
+            fileUrl,
+            path.join(existingDir, existingFile.targetName),
+            existingFile.bytes,
+          ),
+        );
         successCount++;
+        countMedia(mediaCounts, getMediaType(existingFile.targetName));
         if (onProgress) onProgress(i + 1, totalPdfs);
         continue;
       }
 
       // File doesn't exist or size mismatch, download it
-      await downloadPdf(fileUrl, pdfOutputDir, fileName, prefix);
+      const download = await downloadPdf(
+        fileUrl,
+        pdfOutputDir,
+        targetFileName,
+        {
+          expectedSize: fileSize,
+          // Videos, audio and images go to their own subfolders
+          getOutputDir: (mediaType) =>
+            getMediaDir(baseDirectory, searchTerm, mediaType),
+        },
+      );
+      recordInCatalog(() =>
+        catalog.markDownloaded(fileUrl, download.filePath, download.bytes),
+      );
       successCount++;
+      countMedia(mediaCounts, download.mediaType);
     } catch (error: any) {
+      recordInCatalog(() => catalog.markFailed(fileUrl));
       failCount++;
     }
 
@@ -282,9 +607,22 @@ async function downloadPdfsFromJson(
     }
   }
 
+  catalog.close();
   return { successCount, failCount };
 }
 
+/**
+ * Update the shared catalog; without the record a file is only downloaded
+ * again later, so errors are logged and ignored
+ */
+function recordInCatalog(action: () => void): void {
+  try {
+    action();
+  } catch (error: any) {
+    console.log(chalk.yellow(`  Catalog update failed: ${error.message}`));
+  }
+}
+
 // ============================================================================
 // SECTION 4: TERMINAL USER INTERFACE
 // ============================================================================
@@ -302,8 +640,7 @@ async function downloadAllPagesWorkflow(
   baseDirectory: string,
   startPage: number,
   options: {
-    prefixMode: PrefixMode;
-    customPrefix?: string;
+    nameTemplate: string;
     verbose: boolean;
   },
 ): Promise<void> {
@@ -359,13 +696,14 @@ async function downloadAllPagesWorkflow(
   // Initialize progress tracking
   initProgressBars();
   addJsonProgressTask("JSON Pages", allJsonData.length);
-  addPdfProgressTask("PDF Downloads", totalPdfCount);
+  addPdfProgressTask("Downloads", totalPdfCount);
   updateJsonProgress("JSON Pages", allJsonData.length, allJsonData.length);
 
   // Download PDFs
   let totalSuccessCount = 0;
   let totalFailCount = 0;
   let currentPdfCount = 0;
+  const mediaCounts: MediaCounts = {};
 
   for (let i = 0; i < allJsonData.length; i++) {
     const jsonData = allJsonData[i];
@@ -377,22 +715,21 @@ async function downloadAllPagesWorkflow(
     }
 
     try {
-      // Calculate prefix for this specific page
-      const pagePrefix = getPrefixForPage(
-        options.prefixMode,
-        options.customPrefix,
-        page,
-      );
-
       const { successCount, failCount } = await downloadPdfsFromJson(
         jsonData,
         searchTerm,
         baseDirectory,
         page,
-        pagePrefix,
+        options.nameTemplate,
+        mediaCounts,
         (_current: number, _total: number) => {
           currentPdfCount++;
-          updatePdfProgress("PDF Downloads", currentPdfCount, totalPdfCount);
+          updatePdfProgress(
+            "Downloads",
+            currentPdfCount,
+            totalPdfCount,
+            mediaCounts,
+          );
         },
       );
 
@@ -410,22 +747,18 @@ async function downloadAllPagesWorkflow(
       const pagePdfCount = jsonData.hits?.hits?.length || 0;
       totalFailCount += pagePdfCount;
       currentPdfCount += pagePdfCount;
-      updatePdfProgress("PDF Downloads", currentPdfCount, totalPdfCount);
+      updatePdfProgress("Downloads", currentPdfCount, totalPdfCount);
     }
   }
 
   // Mark tasks as done
   markTaskDone("JSON Pages", "Complete ✓", chalk.blue);
-  markTaskDone(
-    "PDF Downloads",
-    `${totalSuccessCount} downloaded ✓`,
-    chalk.green,
-  );
+  markTaskDone("Downloads", `${totalSuccessCount} downloaded ✓`, chalk.green);
 
   // Cleanup and show summary
   await new Promise((resolve) => setTimeout(resolve, 500));
   closeProgressBars();
-  showDownloadSummary(totalSuccessCount, totalFailCount);
+  showDownloadSummary(totalSuccessCount, totalFailCount, mediaCounts);
 }
 
 /**
@@ -435,8 +768,7 @@ async function downloadSinglePageWorkflow(
   searchTerm: string,
   baseDirectory: string,
   pageNumber: number,
-  prefixMode: PrefixMode,
-  customPrefix?: string,
+  nameTemplate: string,
 ): Promise<void> {
   console.log(chalk.cyan(`\nDownload Mode: Single Page (${pageNumber})`));
   console.log(chalk.gray(`\nFetching JSON data to count PDFs...\n`));
@@ -454,12 +786,13 @@ async function downloadSinglePageWorkflow(
   // Initialize progress tracking
   initProgressBars();
   addJsonProgressTask("JSON Pages", 1);
-  addPdfProgressTask("PDF Downloads", actualPdfCount);
+  addPdfProgressTask("Downloads", actualPdfCount);
   updateJsonProgress("JSON Pages", 1, 1);
 
   let totalSuccessCount = 0;
   let totalFailCount = 0;
   let currentPdfCount = 0;
+  const mediaCounts: MediaCounts = {};
 
   // Download PDFs for this page
   const { successCount, failCount } = await downloadPdfsFromJson(
@@ -467,10 +800,16 @@ async function downloadSinglePageWorkflow(
     searchTerm,
     baseDirectory,
     pageNumber,
-    getPrefixForPage(prefixMode, customPrefix, pageNumber),
+    nameTemplate,
+    mediaCounts,
     (_current: number, _total: number) => {
       currentPdfCount++;
-      updatePdfProgress("PDF Downloads", currentPdfCount, actualPdfCount);
+      updatePdfProgress(
+        "Downloads",
+        currentPdfCount,
+        actualPdfCount,
+        mediaCounts,
+      );
     },
   );
 
@@ -479,16 +818,12 @@ async function downloadSinglePageWorkflow(
 
   // Mark tasks as done
   markTaskDone("JSON Pages", "Complete ✓", chalk.blue);
-  markTaskDone(
-    "PDF Downloads",
-    `${totalSuccessCount} downloaded ✓`,
-    chalk.green,
-  );
+  markTaskDone("Downloads", `${totalSuccessCount} downloaded ✓`, chalk.green);
 
   // Cleanup and show summary
   await new Promise((resolve) => setTimeout(resolve, 500));
   closeProgressBars();
-  showDownloadSummary(totalSuccessCount, totalFailCount);
+  showDownloadSummary(totalSuccessCount, totalFailCount, mediaCounts);
 }
 
 /**
@@ -508,6 +843,7 @@ async function runInteractiveMode(initialOptions: {
   all?: boolean;
   prefix?: string;
   prefixMode?: string;
+  nameTemplate?: string;
   verbose?: boolean;
   workers?: string;
 }): Promise<{
@@ -516,10 +852,9 @@ async function runInteractiveMode(initialOptions: {
   pageNum: number;
   isPageExplicitlySet: boolean;
   allFlag: boolean;
-  prefixMode: PrefixMode;
-  customPrefix?: string;
+  nameTemplate: string;
   isVerbose: boolean;
-  workers: number;
+  workers: WorkerCount;
   endPage?: number;
 }> {
   console.log(chalk.cyan("\nInteractive Mode\n"));
@@ -583,19 +918,21 @@ async function runInteractiveMode(initialOptions: {
     allFlag = modeChoice === "all";
   }
 
-  // Custom prefix prompt
+  // File name prompt (prefix or template)
   const defaultPrefixMode = getDefaultPrefixMode(
     initialOptions.prefixMode,
     initialOptions.prefix,
+    initialOptions.nameTemplate,
   );
 
-  const prefixMode: PrefixMode = await prompt({
+  const prefixMode: FileNameMode = await prompt({
     type: PromptType.Select,
-    message: "Filename prefix:",
+    message: "Filename format:",
     choices: [
       { name: "None", value: "none" },
       { name: "Page Number", value: "page" },
       { name: "Custom", value: "custom" },
+      { name: "Template", value: "template" },
     ],
     default: defaultPrefixMode,
     cleanup: cleanupAfterPromptExit,
@@ -611,27 +948,60 @@ async function runInteractiveMode(initialOptions: {
         if (!value || value.trim() === "") {
           return "Custom prefix cannot be empty";
         }
-        return true;
+        try {
+          parseNameTemplate(templateFromPrefix("custom", value), "Prefix");
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
       },
       cleanup: cleanupAfterPromptExit,
     });
   }
 
+  let nameTemplate: string;
+  if (prefixMode === "template") {
+    const templateInput: string = await prompt({
+      type: PromptType.Input,
+      message:
+        "Name template ({name} {stem} {ext} {page} {term} {index} {size} {date}):",
+      default: initialOptions.nameTemplate || "{page}-{name}",
+      validate: (value) => {
+        try {
+          parseNameTemplate(value);
+          return true;
+        } catch (error: any) {
+          return error.message.replace("--name-template", "Template");
+        }
+      },
+      cleanup: cleanupAfterPromptExit,
+    });
+    nameTemplate = parseNameTemplate(templateInput);
+  } else {
+    nameTemplate = parseNameTemplate(
+      templateFromPrefix(prefixMode, customPrefix),
+      "Prefix",
+    );
+  }
+
   // Parallel workers
   const workersInput: string = await prompt({
     type: PromptType.Input,
-    message: "Number of parallel workers (slowest 1-10 fastest):",
+    message: 'Number of parallel workers (slowest 1-10 fastest, or "auto"):',
     default: initialOptions.workers || "4",
     validate: (value) => {
+      if (value.trim().toLowerCase() === "auto") {
+        return true;
+      }
       const num = parseInt(value, 10);
       if (isNaN(num) || num < 1 || num > 10) {
-        return "Please enter a number between 1 and 10";
+        return 'Please enter a number between 1 and 10, or "auto"';
       }
       return true;
     },
     cleanup: cleanupAfterPromptExit,
   });
-  const workers = parseInt(workersInput, 10) || 4;
+  const workers = parseWorkerCount(workersInput);
 
   // Verbose mode
   const isVerbose: boolean = await prompt({
@@ -650,8 +1020,7 @@ async function runInteractiveMode(initialOptions: {
     pageNum,
     isPageExplicitlySet,
     allFlag,
-    prefixMode,
-    customPrefix,
+    nameTemplate,
     isVerbose,
     workers,
     endPage,
@@ -664,7 +1033,7 @@ async function runInteractiveMode(initialOptions: {
 
 /**
  * Main application entry point.
- * Handles CLI setup, user interactions, and download workflows.
+ * Handles CLI setup and dispatches to the download or retry command.
  */
 async function main(): Promise<void> {
   // -------------------------------------------------------------------------
@@ -674,6 +1043,7 @@ async function main(): Promise<void> {
     .name("ef-dl")
     .description("CLI to download Epstein files from justice.gov")
     .version(VERSION)
+    .enablePositionalOptions()
     .option("--age <boolean>", "Confirm you are 18+ (true/false)")
     .option("-s, --search <term>", "Search term (required)")
     .option("-d, --directory <path>", "Download directory (Required)")
@@ -694,7 +1064,55 @@ async function main(): Promise<void> {
       "--prefix <string>",
       "Custom prefix for PDF filenames (requires --prefix-mode custom)",
     )
-    .option("-w, --workers <number>", "Number of parallel workers (1-10)", "4")
+    .option(
+      "--name-template <template>",
+      "File name template: {name} {stem} {ext} {page} {term} {index} {size} {date} or any _source field (replaces --prefix-mode)",
+    )
+    .option(
+      "-w, --workers <number>",
+      'Number of parallel workers (1-10), or "auto" to adjust while running',
+      "4",
+    )
+    .option(
+      "--page-concurrency <number>",
+      "Number of JSON pages fetched in parallel (1-5)",
+      "2",
+    )
+    .option(
+      "--isolation <mode>",
+      "Run workers as separate processes or in-process threads: process, thread",
+      "process",
+    )
+    .option(
+      "--rate <number>",
+      "Max requests per second shared by all workers and page fetches (0 = unlimited)",
+      String(DEFAULT_RATE_LIMITS.requestsPerSecond),
+    )
+    .option(
+      "--max-downloads <number>",
+      "Max concurrent downloads across all workers (0 = unlimited)",
+      String(DEFAULT_RATE_LIMITS.maxConcurrentDownloads),
+    )
+    .option(
+      "--retry-attempts <number>",
+      "Download attempts per PDF, permanent errors are not retried (default: 3)",
+    )
+    .option(
+      "--retry-delay <ms>",
+      "Delay before the first retry in ms, doubled per retry (default: 2000)",
+    )
+    .option(
+      "--retry-max-delay <ms>",
+      "Max delay between retries in ms (default: 30000)",
+    )
+    .option(
+      "--retry-jitter <fraction>",
+      "Random ± fraction applied to retry delays, 0-1 (default: 0.2)",
+    )
+    .option(
+      "--retry-config <file>",
+      "JSON file with retry settings: maxAttempts, baseDelayMs, maxDelayMs, jitter",
+    )
     .option("-c, --cache <boolean>", "Keep cache for this search (true/false)")
     .option("-v, --verbose", "Show verbose debug output", false)
     .option(
@@ -704,6 +1122,11 @@ async function main(): Promise<void> {
     )
     .option("-f, --force", "Force fresh start, ignore resume", false)
     .option("--sequential", "Use sequential download (no parallel)", false)
+    .option(
+      "--dry-run",
+      "Fetch metadata and report what would be downloaded, without downloading",
+      false,
+    )
     .configureHelp({
       sortSubcommands: true,
       helpWidth: 80,
@@ -722,27 +1145,153 @@ async function main(): Promise<void> {
     - Prefill range (from page): bun start --age true -s "your search term" -d ./downloads -p 1 -a
     - Prefill prefix mode (page): bun start --age true -s "your search term" -d ./downloads --prefix-mode page
     - Prefill prefix mode (custom): bun start --age true -s "your search term" -d ./downloads --prefix-mode custom --prefix EPSTEIN
+    - Name template: bun start --age true -s "your search term" -d ./downloads --name-template "{term}_{page}-{index}_{name}"
     - Prefill workers: bun start --age true -s "your search term" -d ./downloads -w 10
+    - Adaptive workers: bun start --age true -s "your search term" -d ./downloads -w auto
+    - Parallel page fetches: bun start --age true -s "your search term" -d ./downloads --page-concurrency 4
+    - Worker threads: bun start --age true -s "your search term" -d ./downloads --isolation thread
+    - Rate limited: bun start --age true -s "your search term" -d ./downloads --rate 1 --max-downloads 2
+    - Retry policy: bun start --age true -s "your search term" -d ./downloads --retry-attempts 5 --retry-delay 1000
     - Prefill verbose: bun start --age true -s "your search term" -d ./downloads -v
     - Prefill force: bun start --age true -s "your search term" -d ./downloads -f
     - Sequential mode: bun start --age true -s "your search term" -d ./downloads --sequential
+    - Dry run (plan only): bun start --age true -s "your search term" -d ./downloads --dry-run
+    - Retry failed PDFs: bun start retry --age true -s "your search term" -d ./downloads
+    - Retry one page's failures: bun start retry --age true -s "your search term" -d ./downloads -p 3 -e timeout
+    - Export queue as CSV: bun start export -s "your search term" -d ./downloads -o tasks.csv
+    - Export failures as JSONL: bun start export -s "your search term" -d ./downloads -f jsonl --status failed
+    - Search status: bun start status -s "your search term" -d ./downloads
+    - All cached searches: bun start status -d ./downloads --all
+    - Move old sequential downloads: bun start migrate-layout -d ./downloads
     - Cache: JSON metadata in {downloads_directory}/cache/{search-term}/json/
     - Queue DB: {downloads_directory}/cache/{search-term}/{search-term}.db
     - Files: {downloads_directory}/files/{search-term}/
       `,
     )
-    .parse();
+    .action(async () => {
+      await runDownloadCommand(program.opts());
+    });
 
-  // -------------------------------------------------------------------------
-  // Parse Options Early
-  // -------------------------------------------------------------------------
-  const options = program.opts();
-  const ageCheck = parseAgeCheck(options.age);
-  const cacheOverride = parseCacheFlag(options.cache);
+  program
+    .command("retry")
+    .description(
+      "Requeue failed PDFs of a cached search and download them again",
+    )
+    .option("--age <boolean>", "Confirm you are 18+ (true/false)")
+    .option("-s, --search <term>", "Search term (required)")
+    .option("-d, --directory <path>", "Download directory (Required)")
+    .option(
+      "-p, --page <numbers>",
+      "Only retry PDFs from these pages (comma-separated)",
+    )
+    .option("-e, --error <text>", "Only retry PDFs whose error contains text")
+    .option(
+      "-n, --name <text>",
+      "Only retry PDFs whose file name contains text",
+    )
+    .option(
+      "--prefix-mode <mode>",
+      "Prefix mode: none, page, custom (default: none)",
+    )
+    .option(
+      "--prefix <string>",
+      "Custom prefix for PDF filenames (requires --prefix-mode custom)",
+    )
+    .option(
+      "--name-template <template>",
+      "File name template: {name} {stem} {ext} {page} {term} {index} {size} {date} or any _source field (replaces --prefix-mode)",
+    )
+    .option(
+      "-w, --workers <number>",
+      'Number of parallel workers (1-10), or "auto" to adjust while running',
+      "4",
+    )
+    .option(
+      "--isolation <mode>",
+      "Run workers as separate processes or in-process threads: process, thread",
+      "process",
+    )
+    .option(
+      "--rate <number>",
+      "Max requests per second shared by all workers and page fetches (0 = unlimited)",
+      String(DEFAULT_RATE_LIMITS.requestsPerSecond),
+    )
+    .option(
+      "--max-downloads <number>",
+      "Max concurrent downloads across all workers (0 = unlimited)",
+      String(DEFAULT_RATE_LIMITS.maxConcurrentDownloads),
+    )
+    .option(
+      "--retry-attempts <number>",
+      "Download attempts per PDF, permanent errors are not retried (default: 3)",
+    )
+    .option(
+      "--retry-delay <ms>",
+      "Delay before the first retry in ms, doubled per retry (default: 2000)",
+    )
+    .option(
+      "--retry-max-delay <ms>",
+      "Max delay between retries in ms (default: 30000)",
+    )
+    .option(
+      "--retry-jitter <fraction>",
+      "Random ± fraction applied to retry delays, 0-1 (default: 0.2)",
+    )
+    .option(
+      "--retry-config <file>",
+      "JSON file with retry settings: maxAttempts, baseDelayMs, maxDelayMs, jitter",
+    )
+    .option("-v, --verbose", "Show verbose debug output", false)
+    .action(async (options) => {
+      await runRetryCommand(options);
+    });
 
-  // -------------------------------------------------------------------------
-  // Setup Signal Handlers for Graceful Interruption
-  // -------------------------------------------------------------------------
+  program
+    .command("export")
+    .description("Export the download queue of a cached search")
+    .option("-s, --search <term>", "Search term (required)")
+    .option("-d, --directory <path>", "Download directory (Required)")
+    .option("-f, --format <format>", "Output format: csv, jsonl, json", "csv")
+    .option(
+      "--status <statuses>",
+      "Only export tasks with these statuses (comma-separated: pending, in-progress, completed, failed)",
+    )
+    .option("-o, --output <file>", "Write to a file instead of stdout")
+    .action((options) => {
+      runExportCommand(options);
+    });
+
+  program
+    .command("status")
+    .description("Show the progress of a cached search without changing it")
+    .option("-s, --search <term>", "Search term (required unless --all)")
+    .option("-d, --directory <path>", "Download directory (Required)")
+    .option("--all", "List every search cached in the directory", false)
+    .option("-e, --errors <number>", "Number of recent errors to show", "10")
+    .action((options) => {
+      runStatusCommand(options);
+    });
+
+  program
+    .command("migrate-layout")
+    .description(
+      "Move downloads of the old sequential layout into the current one",
+    )
+    .option("-d, --directory <path>", "Download directory (Required)")
+    .option("-s, --search <term>", "Only migrate this search term")
+    .option("--dry-run", "Report what would be moved without moving", false)
+    .action((options) => {
+      runMigrateLayoutCommand(options);
+    });
+
+  setupProcessHandlers();
+  await program.parseAsync();
+}
+
+/**
+ * Setup signal handlers for graceful interruption.
+ */
+function setupProcessHandlers(): void {
   let isShuttingDown = false;
 
   const isExitPromptError = (error: unknown): boolean => {
@@ -806,6 +1355,17 @@ async function main(): Promise<void> {
     await closeBrowser().catch(() => {});
     process.exit(143); // 143 = SIGTERM exit code
   });
+}
+
+/**
+ * Download command: handles user interactions and download workflows.
+ */
+async function runDownloadCommand(options: Record<string, any>): Promise<void> {
+  // -------------------------------------------------------------------------
+  // Parse Options Early
+  // -------------------------------------------------------------------------
+  const ageCheck = parseAgeCheck(options.age);
+  const cacheOverride = parseCacheFlag(options.cache);
 
   // -------------------------------------------------------------------------
   // Check for Interactive Mode or No Arguments
@@ -827,11 +1387,10 @@ async function main(): Promise<void> {
   let endPage: number | undefined;
   let isPageExplicitlySet: boolean;
   let allFlag: boolean;
-  let prefixMode: PrefixMode;
-  let customPrefix: string | undefined;
+  let nameTemplate: string;
   let isVerbose: boolean;
   let downloadAllPages: boolean;
-  let workers: number;
+  let workers: WorkerCount;
 
   if (isInteractiveMode) {
     // Interactive mode: show header, then age verification
@@ -847,6 +1406,7 @@ async function main(): Promise<void> {
       all: options.all,
       prefix: options.prefix,
       prefixMode: options.prefixMode,
+      nameTemplate: options.nameTemplate,
       verbose: options.verbose,
       workers: options.workers,
     });
@@ -858,8 +1418,7 @@ async function main(): Promise<void> {
     endPage = config.endPage;
     isPageExplicitlySet = config.isPageExplicitlySet;
     allFlag = config.allFlag;
-    prefixMode = config.prefixMode;
-    customPrefix = config.customPrefix;
+    nameTemplate = config.nameTemplate;
     isVerbose = config.isVerbose;
     workers = config.workers;
     downloadAllPages = !isPageExplicitlySet || allFlag;
@@ -881,11 +1440,7 @@ async function main(): Promise<void> {
     isPageExplicitlySet =
       process.argv.includes("-p") || process.argv.includes("--page");
     allFlag = options.all;
-    prefixMode = normalizePrefixMode(
-      options.prefixMode,
-      options.prefix ? "custom" : "none",
-    );
-    customPrefix = options.prefix;
+    nameTemplate = resolveNameTemplate(options);
     isVerbose = options.verbose;
 
     // Parse page number
@@ -900,16 +1455,10 @@ async function main(): Promise<void> {
       pageNum = 1;
     }
 
-    if (prefixMode === "custom" && !customPrefix) {
-      console.error(
-        chalk.red("Error: --prefix is required when --prefix-mode is custom"),
-      );
-      process.exit(1);
-    }
     startPage = pageNum;
     downloadAllPages = !isPageExplicitlySet || allFlag;
     endPage = isPageExplicitlySet && !allFlag ? pageNum : undefined;
-    workers = parseInt(options.workers, 10);
+    workers = parseWorkerCount(options.workers);
   }
 
   // -------------------------------------------------------------------------
@@ -920,7 +1469,8 @@ async function main(): Promise<void> {
   // -------------------------------------------------------------------------
   // Display Configuration
   // -------------------------------------------------------------------------
-  const useParallel = !options.sequential;
+  // Dry runs always plan through the coordinator
+  const useParallel = !options.sequential || options.dryRun;
 
   showConfiguration(
     searchTerm,
@@ -928,14 +1478,17 @@ async function main(): Promise<void> {
     pageNum,
     isPageExplicitlySet,
     allFlag,
-    prefixMode,
-    customPrefix,
+    nameTemplate,
     isVerbose,
     useParallel,
     workers,
   );
 
-  console.log(chalk.green("\nStarting download process...\n"));
+  console.log(
+    options.dryRun
+      ? chalk.green("\nStarting dry run (nothing will be downloaded)...\n")
+      : chalk.green("\nStarting download process...\n"),
+  );
 
   // Ensure base directory exists
   if (!fs.existsSync(baseDirectory)) {
@@ -947,17 +1500,30 @@ async function main(): Promise<void> {
   // -------------------------------------------------------------------------
   if (useParallel) {
     // Use parallel download coordinator
-    console.log(chalk.blue(`Using parallel mode with ${workers} workers\n`));
+    if (!options.dryRun) {
+      console.log(
+        chalk.blue(
+          workers === "auto"
+            ? "Using parallel mode with auto-scaled workers\n"
+            : `Using parallel mode with ${workers} workers\n`,
+        ),
+      );
+    }
 
     const coordinator = new Coordinator(searchTerm, baseDirectory, {
       startPage,
       endPage,
-      workers,
+      workers: workers === "auto" ? AUTO_MAX_WORKERS : workers,
+      autoScale: workers === "auto",
+      pageConcurrency: parseInt(options.pageConcurrency, 10) || 2,
       fresh: options.force,
       verbose: options.verbose,
-      prefixMode,
-      customPrefix,
+      nameTemplate,
       cache: cacheOverride,
+      dryRun: options.dryRun,
+      isolation: normalizeIsolation(options.isolation),
+      rateLimits: parseRateLimits(options),
+      retryPolicy: parseRetryPolicy(options),
     });
 
     await coordinator.run();
@@ -967,8 +1533,7 @@ async function main(): Promise<void> {
 
     if (downloadAllPages) {
       await downloadAllPagesWorkflow(searchTerm, baseDirectory, startPage, {
-        prefixMode,
-        customPrefix,
+        nameTemplate,
         verbose: options.verbose,
       });
     } else {
@@ -976,8 +1541,7 @@ async function main(): Promise<void> {
         searchTerm,
         baseDirectory,
         startPage,
-        prefixMode,
-        customPrefix,
+        nameTemplate,
       );
     }
 
@@ -985,7 +1549,160 @@ async function main(): Promise<void> {
     await promptForCleanup(baseDirectory, searchTerm, cacheOverride);
   }
 
-  console.log(chalk.green.bold("\nProcess completed successfully!"));
+  console.log(
+    chalk.green.bold(
+      options.dryRun
+        ? "\nDry run completed!"
+        : "\nProcess completed successfully!",
+    ),
+  );
+}
+
+/**
+ * Retry command: requeues failed PDFs of a cached search and downloads them.
+ */
+async function runRetryCommand(options: Record<string, any>): Promise<void> {
+  const ageCheck = parseAgeCheck(options.age);
+  const searchTerm: string | undefined = options.search;
+  const baseDirectory: string | undefined =
+    options.directory || (USE_DEFAULT_DIR ? DEFAULT_DOWNLOAD_DIR : undefined);
+
+  if (!searchTerm || !baseDirectory) {
+    console.error(
+      chalk.red("Error: retry requires --search and --directory options"),
+    );
+    process.exit(1);
+  }
+
+  const nameTemplate = resolveNameTemplate(options);
+
+  showHeader(VERSION);
+  await showDisclaimerAndVerifyAge(ageCheck);
+  setVerboseMode(options.verbose);
+
+  const retryWorkers = parseWorkerCount(options.workers);
+
+  await retryFailedDownloads(searchTerm, baseDirectory, {
+    workers: retryWorkers === "auto" ? AUTO_MAX_WORKERS : retryWorkers,
+    autoScale: retryWorkers === "auto",
+    verbose: options.verbose,
+    nameTemplate,
+    isolation: normalizeIsolation(options.isolation),
+    rateLimits: parseRateLimits(options),
+    retryPolicy: parseRetryPolicy(options),
+    filter: {
+      pages: parsePageList(options.page),
+      errorContains: options.error,
+      nameContains: options.name,
+    },
+  });
+
+  console.log(chalk.green.bold("\nRetry completed!"));
+}
+
+/**
+ * Export command: dumps the queue of a cached search as CSV, JSONL or JSON.
+ */
+function runExportCommand(options: Record<string, any>): void {
+  const searchTerm: string | undefined = options.search;
+  const baseDirectory: string | undefined =
+    options.directory || (USE_DEFAULT_DIR ? DEFAULT_DOWNLOAD_DIR : undefined);
+
+  if (!searchTerm || !baseDirectory) {
+    console.error(
+      chalk.red("Error: export requires --search and --directory options"),
+    );
+    process.exit(1);
+  }
+
+  const format = String(options.format).toLowerCase();
+  if (format !== "csv" && format !== "jsonl" && format !== "json") {
+    console.error(
+      chalk.red(`Error: Invalid format "${format}". Use: csv, jsonl, json`),
+    );
+    process.exit(1);
+  }
+
+  const count = exportTasks(searchTerm, baseDirectory, {
+    format: format as ExportFormat,
+    statuses: parseStatusList(options.status),
+    output: options.output,
+  });
+
+  // Keep stdout clean when the export itself is written there
+  if (options.output) {
+    console.log(chalk.green(`Exported ${count} tasks to ${options.output}`));
+  }
+}
+
+/**
+ * Status command: prints the state of one cached search, or all of them.
+ */
+function runStatusCommand(options: Record<string, any>): void {
+  const searchTerm: string | undefined = options.search;
+  const baseDirectory: string | undefined =
+    options.directory || (USE_DEFAULT_DIR ? DEFAULT_DOWNLOAD_DIR : undefined);
+
+  if (!baseDirectory || (!searchTerm && !options.all)) {
+    console.error(
+      chalk.red(
+        "Error: status requires --directory and either --search or --all",
+      ),
+    );
+    process.exit(1);
+  }
+
+  if (options.all) {
+    showAllSearches(baseDirectory);
+    return;
+  }
+
+  const errors = parseInt(options.errors, 10);
+  showSearchStatus(searchTerm!, baseDirectory, {
+    errors: isNaN(errors) || errors < 0 ? 10 : errors,
+  });
+}
+
+/**
+ * Migrate-layout command: moves old sequential downloads into the layout
+ * both modes use.
+ */
+function runMigrateLayoutCommand(options: Record<string, any>): void {
+  const baseDirectory: string | undefined =
+    options.directory || (USE_DEFAULT_DIR ? DEFAULT_DOWNLOAD_DIR : undefined);
+
+  if (!baseDirectory) {
+    console.error(chalk.red("Error: migrate-layout requires --directory"));
+    process.exit(1);
+  }
+
+  const result = migrateLayout(baseDirectory, {
+    searchTerm: options.search,
+    dryRun: options.dryRun,
+  });
+
+  if (result.searchTerms.length === 0) {
+    console.log(
+      chalk.gray("Nothing to migrate: no downloads in the old layout"),
+    );
+    return;
+  }
+
+  console.log(
+    chalk.green(
+      `\n${options.dryRun ? "Would move" : "Moved"} ${result.moved} files of ${result.searchTerms.length} search terms` +
+        (result.duplicates > 0
+          ? `, ${result.duplicates} already in place`
+          : ""),
+    ),
+  );
+  if (result.conflicts.length > 0) {
+    console.log(
+      chalk.yellow(
+        `${result.conflicts.length} files differ from the copy in the new layout and were left in place`,
+      ),
+    );
+  }
 }
 
 // ============================================================================
@@ -1,4 +1,5 @@
 import createBrowserless from "browserless";
+import { createHash } from "crypto";
 import fs from "fs";
 import path from "path";
 import { JUSTICE_GOV_COOKIE_DOMAIN } from "../types/constants";
@@ -9,10 +10,22 @@ import {
   saveJsonToFile,
 } from "./helpers";
 import { logger } from "../utils/logger";
+import { withFormatExtension, type MediaType } from "../utils/media";
+import { validateDownloadedFile } from "../utils/validation";
+import type { PartialDownload } from "../workers/types.js";
 
-const browserless = createBrowserless({
-  adblock: false, // Disable adblocker to avoid interference with security challenges
-});
+let browserless: ReturnType<typeof createBrowserless> | null = null;
+
+/**
+ * Browser instance, launched on first use so importing this module (e.g.
+ * through the helpers) does not start Chrome
+ */
+function getBrowserless(): ReturnType<typeof createBrowserless> {
+  browserless ??= createBrowserless({
+    adblock: false, // Disable adblocker to avoid interference with security challenges
+  });
+  return browserless;
+}
 
 /**
  * Logger function that only logs in verbose mode
@@ -30,6 +43,15 @@ type PageContentResult = {
   };
 };
 
+export type PdfDownloadResult = {
+  filePath: string;
+  fileName: string;
+  bytes: number;
+  sha256: string;
+  contentType: string | null;
+  mediaType: MediaType;
+};
+
 export async function fetchPageContent(
   url: string,
   options?: {
@@ -39,7 +61,7 @@ export async function fetchPageContent(
   },
 ): Promise<PageContentResult & { jsonData?: any; jsonFilePath?: string }> {
   const cookies = parseCookieHeader(options?.cookieHeader, url);
-  const context = await browserless.createContext();
+  const context = await getBrowserless().createContext();
   let page;
 
   const saveJson = options?.saveJson ?? true;
@@ -73,6 +95,7 @@ export async function fetchPageContent(
     if (error) throw error;
 
     await handleSecurityChallenges(page, context, url, null, debugLog);
+    await rememberSession(page);
 
     // Always extract after any navigation
     debugLog(`\n[Debug] Final URL: ${page.url()}`);
@@ -141,18 +164,383 @@ export async function fetchPageContent(
 }
 
 /**
- * Download a PDF file from justice.gov
- * Handles the security challenges (robot button, interstitial)
+ * Reports bytes received so far (totalBytes is null when unknown)
+ */
+export type DownloadProgressCallback = (
+  bytes: number,
+  totalBytes: number | null,
+) => void;
+
+/** Downloads are written to `{name}.part` and renamed once complete */
+export const PART_FILE_SUFFIX = ".part";
+
+/** Abort a direct download when no data arrives for this long */
+const DIRECT_DOWNLOAD_STALL_MS = 60000;
+
+/**
+ * Cookies and user agent of the last browser session that got past the
+ * security challenges, reused by direct downloads in this process
+ */
+const session: { cookies: Map<string, string>; userAgent: string | null } = {
+  cookies: new Map([["justiceGovAgeVerified", "true"]]),
+  userAgent: null,
+};
+
+/**
+ * Remember the cookies and user agent of a browser page
+ */
+async function rememberSession(page: any): Promise<void> {
+  try {
+    const cookies: Array<{ name: string; value: string }> =
+      await page.cookies();
+    for (const cookie of cookies) {
+      session.cookies.set(cookie.name, cookie.value);
+    }
+    session.userAgent = await page.browser().userAgent();
+  } catch (error) {
+    debugLog("[Session] Could not read browser cookies:", error);
+  }
+}
+
+/**
+ * Options for downloadPdf
+ */
+export type DownloadOptions = {
+  onProgress?: DownloadProgressCallback;
+  // Continue this interrupted download if the server still serves the same file
+  resumeFrom?: PartialDownload | null;
+  // Called when an interrupted download is kept for resuming (null: discarded)
+  onPartial?: (partial: PartialDownload | null) => void;
+  // Size from the search results, checked against the download (0: unknown)
+  expectedSize?: number | null;
+  // Folder for a detected media type (default: the output directory)
+  getOutputDir?: (mediaType: MediaType) => string;
+  // Stops the download, leaving its `.part` file untouched (the task went to
+  // another worker, which now writes that file)
+  signal?: AbortSignal;
+};
+
+/**
+ * Throw if the caller stopped the download
+ */
+function throwIfCancelled(options: DownloadOptions): void {
+  if (options.signal?.aborted) {
+    throw new Error("Download cancelled: lease lost");
+  }
+}
+
+/**
+ * Download a file (PDF, video, audio, image) from justice.gov
+ * Streams the file straight to disk with the cookies of the browser session.
+ * Falls back to the browser, which handles the security challenges (robot
+ * button, interstitial), only when a challenge page comes back instead.
+ * `fileName` is the name from the name template; the saved file gets the
+ * extension and folder of its detected media type.
  */
 export async function downloadPdf(
   pdfUrl: string,
   outputDir: string,
   fileName: string,
-  prefix?: string,
-): Promise<string> {
+  options: DownloadOptions = {},
+): Promise<PdfDownloadResult> {
   debugLog(`[PDF Download] Starting download from: ${pdfUrl}`);
 
-  const context = await browserless.createContext();
+  // Ensure output directory exists
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const filePath = path.join(outputDir, fileName);
+
+  const direct = await downloadPdfDirect(pdfUrl, filePath, options);
+  if (direct) {
+    return direct;
+  }
+
+  throwIfCancelled(options);
+  debugLog("[PDF Download] Got a challenge page, falling back to browser");
+  return downloadPdfInBrowser(pdfUrl, filePath, options);
+}
+
+/**
+ * Move a fully written `.part` file onto its final name
+ * Checks the size and content first, so a truncated body or an error page
+ * never gets the real name, then fixes the extension and folder to match
+ * the detected media type
+ */
+export function finalizePartFile(
+  partPath: string,
+  bytes: number,
+  expectedBytes: number | null,
+  contentType: string | null,
+  options: DownloadOptions,
+): Pick<PdfDownloadResult, "filePath" | "fileName" | "mediaType"> {
+  if (bytes === 0) {
+    fs.rmSync(partPath, { force: true });
+    throw new Error("Downloaded PDF is empty");
+  }
+  if (expectedBytes !== null && bytes !== expectedBytes) {
+    fs.rmSync(partPath, { force: true });
+    throw new Error(
+      `Download incomplete: got ${bytes} of ${expectedBytes} bytes`,
+    );
+  }
+
+  const downloadName = path.basename(partPath, PART_FILE_SUFFIX);
+  let format;
+  try {
+    format = validateDownloadedFile(partPath, bytes, {
+      fileName: downloadName,
+      contentType,
+      expectedSize: options.expectedSize,
+    });
+  } catch (error) {
+    fs.rmSync(partPath, { force: true });
+    throw error;
+  }
+
+  const outputDir =
+    options.getOutputDir?.(format.type) ?? path.dirname(partPath);
+  const fileName = withFormatExtension(downloadName, format);
+  const filePath = path.join(outputDir, fileName);
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.renameSync(partPath, filePath);
+
+  return { filePath, fileName, mediaType: format.type };
+}
+
+/**
+ * Bytes of a kept `.part` file that a download can continue from (0: none)
+ * Extra bytes beyond the recorded offset are cut off
+ */
+function getResumeOffset(
+  partPath: string,
+  resumeFrom: PartialDownload | null | undefined,
+): number {
+  if (
+    !resumeFrom ||
+    resumeFrom.partName !== path.basename(partPath) ||
+    !fs.existsSync(partPath) ||
+    fs.statSync(partPath).size < resumeFrom.bytes
+  ) {
+    return 0;
+  }
+
+  fs.truncateSync(partPath, resumeFrom.bytes);
+  return resumeFrom.bytes;
+}
+
+/**
+ * Stream a PDF to disk with fetch
+ * Resumes a kept `.part` file with a Range request; if the server ignores
+ * the range or the file changed (If-Range), the full file comes back and is
+ * written from the start. Returns null if the portal answered with a
+ * challenge page.
+ */
+export async function downloadPdfDirect(
+  pdfUrl: string,
+  filePath: string,
+  options: DownloadOptions,
+): Promise<PdfDownloadResult | null> {
+  const { onProgress, resumeFrom, onPartial, signal } = options;
+  throwIfCancelled(options);
+  const partPath = `${filePath}${PART_FILE_SUFFIX}`;
+  const partName = path.basename(partPath);
+  const offset = getResumeOffset(partPath, resumeFrom);
+
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel);
+  let stallTimer = setTimeout(
+    () => controller.abort(),
+    DIRECT_DOWNLOAD_STALL_MS,
+  );
+  const resetStallTimer = () => {
+    clearTimeout(stallTimer);
+    stallTimer = setTimeout(() => controller.abort(), DIRECT_DOWNLOAD_STALL_MS);
+  };
+
+  const headers: Record<string, string> = {
+    Accept: "*/*",
+    // fetch decodes compressed bodies, after which neither Content-Length
+    // nor byte ranges match what is written
+    "Accept-Encoding": "identity",
+    Cookie: Array.from(session.cookies)
+      .map(([name, value]) => `${name}=${value}`)
+      .join("; "),
+  };
+  if (session.userAgent) {
+    headers["User-Agent"] = session.userAgent;
+  }
+  if (offset > 0) {
+    headers["Range"] = `bytes=${offset}-`;
+    headers["If-Range"] = resumeFrom!.validator;
+  }
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(pdfUrl, { headers, signal: controller.signal });
+    } catch (error: any) {
+      throwIfCancelled(options);
+      throw new Error(
+        controller.signal.aborted
+          ? `Download timed out after ${DIRECT_DOWNLOAD_STALL_MS / 1000}s without data`
+          : `Failed to download PDF: ${error.message}`,
+      );
+    }
+
+    const contentType = response.headers.get("content-type");
+
+    // Akamai answers with an HTML challenge (often as 403) instead of the file
+    if (contentType?.includes("text/html") || response.status === 403) {
+      await response.body?.cancel().catch(() => undefined);
+      return null;
+    }
+
+    // The kept bytes no longer fit the file, start over
+    if (response.status === 416 && offset > 0) {
+      await response.body?.cancel().catch(() => undefined);
+      fs.rmSync(partPath, { force: true });
+      onPartial?.(null);
+      return downloadPdfDirect(pdfUrl, filePath, {
+        ...options,
+        resumeFrom: null,
+      });
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new Error(
+        `Failed to download PDF: HTTP ${response.status}: ${response.statusText}`,
+      );
+    }
+
+    // Compressed anyway: sizes and ranges count the encoded bytes
+    const contentEncoding = response.headers.get("content-encoding");
+    const encoded = !!contentEncoding && contentEncoding !== "identity";
+    if (encoded && offset > 0) {
+      await response.body?.cancel().catch(() => undefined);
+      fs.rmSync(partPath, { force: true });
+      onPartial?.(null);
+      return downloadPdfDirect(pdfUrl, filePath, {
+        ...options,
+        resumeFrom: null,
+      });
+    }
+
+    const contentRange = response.headers.get("content-range");
+    const resumed =
+      offset > 0 &&
+      response.status === 206 &&
+      !!contentRange?.startsWith(`bytes ${offset}-`);
+    if (offset > 0 && !resumed) {
+      debugLog(
+        `[PDF Download] Server ignored the range or the file changed, downloading ${partName} from the start`,
+      );
+    } else if (resumed) {
+      debugLog(`[PDF Download] Resuming ${partName} at ${offset} bytes`);
+    }
+
+    const lengthHeader = response.headers.get("content-length");
+    const rangeTotal = contentRange?.match(/\/(\d+)$/)?.[1];
+    const totalBytes = encoded
+      ? null
+      : resumed
+        ? rangeTotal
+          ? parseInt(rangeTotal, 10)
+          : null
+        : lengthHeader
+          ? parseInt(lengthHeader, 10)
+          : null;
+    const validator = encoded
+      ? null
+      : response.headers.get("etag") || response.headers.get("last-modified");
+
+    // The hash covers the whole file, including the kept bytes
+    const hash = createHash("sha256");
+    if (resumed) {
+      for await (const chunk of fs.createReadStream(partPath)) {
+        hash.update(chunk);
+      }
+    }
+
+    const file = await fs.promises.open(partPath, resumed ? "a" : "w");
+    let bytes = resumed ? offset : 0;
+
+    try {
+      const reader = response.body!.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        resetStallTimer();
+        await file.write(value);
+        hash.update(value);
+        bytes += value.length;
+        onProgress?.(bytes, totalBytes);
+      }
+      await file.sync();
+    } catch (error: any) {
+      if (signal?.aborted) {
+        await file.close().catch(() => undefined);
+        throwIfCancelled(options);
+      }
+
+      // Keep what arrived if the server can tell us later it is the same file
+      const keep = validator !== null && bytes > 0;
+      await file.sync().catch(() => undefined);
+      await file.close().catch(() => undefined);
+      if (keep) {
+        onPartial?.({ partName, bytes, validator });
+      } else {
+        fs.rmSync(partPath, { force: true });
+        onPartial?.(null);
+      }
+      throw new Error(
+        controller.signal.aborted
+          ? `Download stalled for ${DIRECT_DOWNLOAD_STALL_MS / 1000}s after ${bytes} bytes`
+          : `Failed to download PDF: ${error.message}`,
+      );
+    }
+    await file.close();
+    throwIfCancelled(options);
+
+    const saved = finalizePartFile(
+      partPath,
+      bytes,
+      totalBytes,
+      contentType,
+      options,
+    );
+
+    debugLog(
+      `[PDF Download] Successfully streamed ${bytes} bytes to ${saved.filePath}`,
+    );
+
+    return {
+      ...saved,
+      bytes,
+      sha256: hash.digest("hex"),
+      contentType,
+    };
+  } finally {
+    clearTimeout(stallTimer);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
+
+/**
+ * Download a PDF through a browser page, passing the security challenges
+ * The session cookies are kept for the next direct downloads
+ */
+async function downloadPdfInBrowser(
+  pdfUrl: string,
+  filePath: string,
+  options: DownloadOptions,
+): Promise<PdfDownloadResult> {
+  const context = await getBrowserless().createContext();
   let page;
 
   try {
@@ -180,6 +568,13 @@ export async function downloadPdf(
     if (error) throw error;
 
     await handleSecurityChallenges(page, context, pdfUrl, "PDF", debugLog);
+    await rememberSession(page);
+
+    // With the challenge passed, streaming usually works now
+    const direct = await downloadPdfDirect(pdfUrl, filePath, options);
+    if (direct) {
+      return direct;
+    }
 
     // Check if we're on the PDF or if it triggered a download
     const currentUrl = page.url();
@@ -187,14 +582,18 @@ export async function downloadPdf(
 
     // Try to get the PDF buffer
     let pdfBuffer: Buffer | null = null;
+    let responseContentType: string | null = null;
 
     // Check if the current page is displaying a PDF
     const contentType = await page.evaluate(() => {
       return document.contentType || "";
     });
 
-    if (contentType.includes("pdf") || currentUrl.endsWith(".pdf")) {
-      debugLog("[PDF Download] Page is displaying PDF, capturing...");
+    // The browser shows PDFs, images and media directly instead of a page
+    if (!contentType.includes("html")) {
+      debugLog(
+        `[PDF Download] Page is displaying ${contentType}, capturing...`,
+      );
 
       // Use CDP to capture the PDF
       const client = await page.target().createCDPSession();
@@ -202,16 +601,20 @@ export async function downloadPdf(
         format: "mhtml",
       });
 
-      // For PDFs, we need to fetch the content directly
-      pdfBuffer = await page.evaluate(async () => {
+      // For files, we need to fetch the content directly
+      const base64: string = await page.evaluate(async () => {
         const response = await fetch(window.location.href);
-        const blob = await response.blob();
-        const arrayBuffer = await blob.arrayBuffer();
-        return Array.from(new Uint8Array(arrayBuffer));
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        // Base64 crosses the protocol far smaller than an array of numbers
+        let binary = "";
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
       });
 
-      // Convert array back to Buffer
-      pdfBuffer = Buffer.from(pdfBuffer as any);
+      pdfBuffer = Buffer.from(base64, "base64");
+      responseContentType = contentType;
     } else {
       // Try to download via fetch in page context
       debugLog("[PDF Download] Attempting to download via fetch...");
@@ -223,11 +626,14 @@ export async function downloadPdf(
           if (!response.ok) {
             throw new Error(`HTTP ${response.status}: ${response.statusText}`);
           }
-          const blob = await response.blob();
-          const arrayBuffer = await blob.arrayBuffer();
+          const bytes = new Uint8Array(await response.arrayBuffer());
+          let binary = "";
+          for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+          }
           return {
             success: true,
-            data: Array.from(new Uint8Array(arrayBuffer)),
+            data: btoa(binary),
             contentType: response.headers.get("content-type"),
           };
         } catch (error: any) {
@@ -239,30 +645,45 @@ export async function downloadPdf(
         throw new Error(`Failed to download PDF: ${pdfData.error}`);
       }
 
-      pdfBuffer = Buffer.from(pdfData.data);
+      pdfBuffer = Buffer.from(pdfData.data, "base64");
+      responseContentType = pdfData.contentType ?? null;
     }
 
     if (!pdfBuffer || pdfBuffer.length === 0) {
       throw new Error("Downloaded PDF is empty");
     }
 
-    // Ensure output directory exists
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    }
-
-    // Apply prefix to filename if provided
-    const finalFileName = prefix ? `${prefix}-${fileName}` : fileName;
+    // The browser hands over the whole body at once
+    options.onProgress?.(pdfBuffer.length, pdfBuffer.length);
 
-    // Save PDF file
-    const filePath = path.join(outputDir, finalFileName);
-    fs.writeFileSync(filePath, pdfBuffer);
+    // Save PDF file: write and flush a .part file, then rename it into place
+    throwIfCancelled(options);
+    const partPath = `${filePath}${PART_FILE_SUFFIX}`;
+    const fd = fs.openSync(partPath, "w");
+    try {
+      fs.writeFileSync(fd, pdfBuffer);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    const saved = finalizePartFile(
+      partPath,
+      pdfBuffer.length,
+      null,
+      responseContentType,
+      options,
+    );
 
     debugLog(
-      `[PDF Download] Successfully saved ${pdfBuffer.length} bytes to ${filePath}`,
+      `[PDF Download] Successfully saved ${pdfBuffer.length} bytes to ${saved.filePath}`,
     );
 
-    return filePath;
+    return {
+      ...saved,
+      bytes: pdfBuffer.length,
+      sha256: createHash("sha256").update(pdfBuffer).digest("hex"),
+      contentType: responseContentType,
+    };
   } finally {
     await context.destroyContext().catch(() => undefined);
   }
@@ -273,8 +694,13 @@ export async function downloadPdf(
  * Should be called when the application exits or is interrupted.
  */
 export async function closeBrowser(): Promise<void> {
+  if (!browserless) {
+    return;
+  }
+
   try {
     await browserless.close();
+    browserless = null;
     debugLog("[Browser] Browser instance closed successfully");
   } catch (error) {
     // Browser might already be closed or never started
@@ -0,0 +1,194 @@
+import fs from "fs";
+import path from "path";
+import { TaskQueue, TASK_STATUS_NAMES } from "../workers/task-queue.js";
+import { DocumentCatalog } from "../workers/catalog.js";
+import type { PdfTaskRecord, TaskStatus } from "../workers/types.js";
+import { getFilesDir } from "../utils/layout.js";
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = "csv" | "jsonl" | "json";
+
+/**
+ * Options for the export command
+ */
+export interface ExportCommandOptions {
+  format: ExportFormat;
+  statuses?: TaskStatus[];
+  output?: string;
+}
+
+/**
+ * One exported queue row
+ */
+interface ExportRow {
+  page: number;
+  name: string;
+  url: string;
+  expected_size: number;
+  status: string;
+  outcome: string | null;
+  error: string | null;
+  worker: string | null;
+  retry_count: number;
+  created_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  duration_ms: number | null;
+  bytes: number | null;
+  sha256: string | null;
+  content_type: string | null;
+  local_path: string | null;
+}
+
+const CSV_COLUMNS: (keyof ExportRow)[] = [
+  "page",
+  "name",
+  "url",
+  "expected_size",
+  "status",
+  "outcome",
+  "error",
+  "worker",
+  "retry_count",
+  "created_at",
+  "started_at",
+  "completed_at",
+  "duration_ms",
+  "bytes",
+  "sha256",
+  "content_type",
+  "local_path",
+];
+
+/**
+ * Export Command
+ *
+ * Dumps the tasks of a cached search queue as CSV, JSONL or JSON, to a file
+ * or stdout. Read-only: the queue is not modified.
+ * Returns the number of exported tasks.
+ */
+export function exportTasks(
+  searchTerm: string,
+  downloadDir: string,
+  options: ExportCommandOptions,
+): number {
+  const queue = new TaskQueue(downloadDir, searchTerm, { readonly: true });
+  const catalog = new DocumentCatalog(downloadDir, { readonly: true });
+
+  try {
+    const filesDir = getFilesDir(downloadDir, searchTerm);
+    const rows = queue
+      .getTasks(options.statuses)
+      .map((task) => toExportRow(task, filesDir, catalog));
+
+    const content = formatRows(rows, options.format);
+
+    if (options.output) {
+      const outputDir = path.dirname(options.output);
+      if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+      }
+      fs.writeFileSync(options.output, content);
+    } else {
+      process.stdout.write(content);
+    }
+
+    return rows.length;
+  } finally {
+    catalog.close();
+    queue.close();
+  }
+}
+
+/**
+ * Convert a task record to an export row
+ */
+function toExportRow(
+  task: PdfTaskRecord,
+  filesDir: string,
+  catalog: DocumentCatalog,
+): ExportRow {
+  return {
+    page: task.pageNumber,
+    name: task.pdfName,
+    url: task.pdfUrl,
+    expected_size: task.fileSize,
+    status: TASK_STATUS_NAMES[task.status],
+    outcome: task.outcome,
+    error: task.error,
+    worker: task.workerId,
+    retry_count: task.retryCount,
+    created_at: toIsoString(task.createdAt),
+    started_at: toIsoString(task.startedAt),
+    completed_at: toIsoString(task.completedAt),
+    duration_ms: task.durationMs,
+    bytes: task.bytes,
+    sha256: task.sha256,
+    content_type: task.contentType,
+    local_path: resolveLocalPath(task, filesDir, catalog),
+  };
+}
+
+/**
+ * Resolve where a completed task's file lives on disk
+ * Tasks satisfied from the catalog point at the copy downloaded for
+ * another search term
+ */
+function resolveLocalPath(
+  task: PdfTaskRecord,
+  filesDir: string,
+  catalog: DocumentCatalog,
+): string | null {
+  if (task.status !== 2) {
+    return null;
+  }
+
+  if (task.finalName) {
+    return path.resolve(filesDir, task.finalName);
+  }
+
+  return catalog.getDocument(task.pdfUrl)?.localPath ?? null;
+}
+
+/**
+ * Serialize rows in the requested format
+ */
+function formatRows(rows: ExportRow[], format: ExportFormat): string {
+  if (format === "json") {
+    return JSON.stringify(rows, null, 2) + "\n";
+  }
+
+  if (format === "jsonl") {
+    return rows.map((row) => JSON.stringify(row) + "\n").join("");
+  }
+
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((column) => toCsvField(row[column])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Quote a CSV field if it contains separators, quotes or line breaks
+ */
+function toCsvField(value: string | number | null): string {
+  if (value === null) {
+    return "";
+  }
+
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Format a millisecond timestamp as ISO 8601
+ */
+function toIsoString(timestamp: number | null): string | null {
+  return timestamp ? new Date(timestamp).toISOString() : null;
+}
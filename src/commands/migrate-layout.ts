@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import { logger } from "../utils/logger";
+import { PART_FILE_SUFFIX } from "../browserless/browser-client";
+import {
+  LAYOUT_FOLDERS,
+  getJsonDir,
+  getLegacyDirs,
+  getMediaDir,
+} from "../utils/layout.js";
+import { MEDIA_TYPES } from "../utils/media.js";
+
+/**
+ * Options for the migrate-layout command
+ */
+export interface MigrateLayoutOptions {
+  searchTerm?: string; // Only this search term (default: all found)
+  dryRun: boolean;
+}
+
+/**
+ * What a layout migration did (or would do, for a dry run)
+ */
+export interface LayoutMigrationResult {
+  searchTerms: string[];
+  moved: number;
+  duplicates: number; // Already in the new layout with the same size
+  conflicts: string[]; // Same name but a different size, left in place
+}
+
+/**
+ * Migrate Layout Command
+ *
+ * Moves downloads of the older sequential layout ({dir}/{term}/pdfs,
+ * {dir}/{term}/json) into the layout both modes use now, so nothing has to
+ * be downloaded again. Files already in the new layout with the same size
+ * are dropped from the old one; files with a different size are left in
+ * place and reported. Emptied old folders are removed.
+ */
+export function migrateLayout(
+  downloadDir: string,
+  options: MigrateLayoutOptions,
+): LayoutMigrationResult {
+  if (!fs.existsSync(downloadDir)) {
+    throw new Error(`Download directory not found: ${downloadDir}`);
+  }
+
+  const searchTerms = options.searchTerm
+    ? [options.searchTerm]
+    : findLegacySearches(downloadDir);
+  const result: LayoutMigrationResult = {
+    searchTerms,
+    moved: 0,
+    duplicates: 0,
+    conflicts: [],
+  };
+
+  for (const searchTerm of searchTerms) {
+    const legacy = getLegacyDirs(downloadDir, searchTerm);
+    const moves: Array<[from: string, to: string]> = [
+      [legacy.jsonDir, getJsonDir(downloadDir, searchTerm)],
+      ...MEDIA_TYPES.map((mediaType): [string, string] => [
+        legacy.mediaDirs[mediaType],
+        getMediaDir(downloadDir, searchTerm, mediaType),
+      ]),
+    ];
+
+    logger.info(chalk.cyan(`\n${searchTerm}:`));
+    for (const [from, to] of moves) {
+      moveFiles(from, to, options.dryRun, result);
+    }
+
+    if (!options.dryRun) {
+      removeIfEmpty(legacy.root);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find search term folders of the old layout in a download directory
+ */
+function findLegacySearches(downloadDir: string): string[] {
+  return fs
+    .readdirSync(downloadDir, { withFileTypes: true })
+    .filter(
+      (entry) => entry.isDirectory() && !LAYOUT_FOLDERS.includes(entry.name),
+    )
+    .map((entry) => entry.name)
+    .filter((searchTerm) => {
+      const legacy = getLegacyDirs(downloadDir, searchTerm);
+      return [legacy.jsonDir, ...Object.values(legacy.mediaDirs)].some((dir) =>
+        fs.existsSync(dir),
+      );
+    })
+    .sort();
+}
+
+/**
+ * Move the files of one old folder into its new folder
+ */
+function moveFiles(
+  from: string,
+  to: string,
+  dryRun: boolean,
+  result: LayoutMigrationResult,
+): void {
+  if (!fs.existsSync(from)) {
+    return;
+  }
+
+  let moved = 0;
+  for (const entry of fs.readdirSync(from, { withFileTypes: true })) {
+    if (!entry.isFile()) {
+      continue;
+    }
+
+    const source = path.join(from, entry.name);
+    const target = path.join(to, entry.name);
+
+    // Interrupted sequential downloads cannot be resumed
+    if (entry.name.endsWith(PART_FILE_SUFFIX)) {
+      if (!dryRun) {
+        fs.rmSync(source, { force: true });
+      }
+      continue;
+    }
+
+    if (fs.existsSync(target)) {
+      if (fs.statSync(target).size === fs.statSync(source).size) {
+        result.duplicates++;
+        if (!dryRun) {
+          fs.rmSync(source);
+        }
+      } else {
+        result.conflicts.push(source);
+        logger.warn(
+          chalk.yellow(`   ! ${source} differs from ${target}, left in place`),
+        );
+      }
+      continue;
+    }
+
+    if (!dryRun) {
+      fs.mkdirSync(to, { recursive: true });
+      fs.renameSync(source, target);
+    }
+    moved++;
+  }
+
+  result.moved += moved;
+  if (moved > 0) {
+    logger.info(
+      chalk.white(
+        `   ${dryRun ? "Would move" : "Moved"} ${moved} files: ${from} → ${to}`,
+      ),
+    );
+  }
+
+  if (!dryRun) {
+    removeIfEmpty(from);
+  }
+}
+
+/**
+ * Remove a folder if nothing is left in it
+ */
+function removeIfEmpty(dir: string): void {
+  if (fs.existsSync(dir) && fs.readdirSync(dir).length === 0) {
+    fs.rmdirSync(dir);
+  }
+}
@@ -0,0 +1,155 @@
+import chalk from "chalk";
+import { TaskQueue } from "../workers/task-queue.js";
+import { WorkerPool } from "../workers/worker-pool.js";
+import { RateLimiter } from "../workers/rate-limiter.js";
+import { CircuitBreaker } from "../workers/circuit-breaker.js";
+import { saveRetryPolicy } from "../workers/retry-policy.js";
+import type {
+  FailedTaskFilter,
+  QueueProgress,
+  RateLimits,
+  RetryPolicy,
+  WorkerIsolation,
+} from "../workers/types.js";
+import { logger } from "../utils/logger";
+import { getFilesDir } from "../utils/layout.js";
+import { formatMediaCounts } from "../utils/media.js";
+import { removeStalePartFiles } from "../utils/helpers";
+import {
+  initProgressBars,
+  addPdfProgressTask,
+  updatePdfProgress,
+  updateWorkerProgress,
+  closeProgressBars,
+} from "../utils/progress.js";
+
+/**
+ * Options for the retry command
+ */
+export interface RetryCommandOptions {
+  workers: number; // Upper bound when autoScale is set
+  autoScale: boolean;
+  verbose: boolean;
+  nameTemplate: string;
+  isolation: WorkerIsolation;
+  rateLimits: RateLimits;
+  retryPolicy: RetryPolicy;
+  filter: FailedTaskFilter;
+}
+
+/**
+ * Retry Command
+ *
+ * Reopens the queue of a finished search, resets failed tasks (optionally
+ * filtered by page, error text or file name) back to pending and runs the
+ * worker pool over them.
+ */
+export async function retryFailedDownloads(
+  searchTerm: string,
+  downloadDir: string,
+  options: RetryCommandOptions,
+): Promise<void> {
+  if (!TaskQueue.existsFor(downloadDir, searchTerm)) {
+    throw new Error(
+      `No queue found for "${searchTerm}" in ${downloadDir} (expected ${TaskQueue.getDbPath(downloadDir, searchTerm)})`,
+    );
+  }
+
+  const queue = new TaskQueue(downloadDir, searchTerm);
+
+  try {
+    const before = queue.getProgress();
+    showQueueCounts("Before retry", before);
+
+    // Only retry finished runs, otherwise the pool would also pick up
+    // unrelated pending tasks from an interrupted run
+    const fetchComplete = queue.getMetadata("json_fetch_complete") === "true";
+    if (before.pending > 0 || before.inProgress > 0 || !fetchComplete) {
+      throw new Error(
+        `Search "${searchTerm}" has an unfinished run. Resume it first: ef-dl -s "${searchTerm}" -d ${downloadDir}`,
+      );
+    }
+
+    const requeued = queue.requeueFailed(options.filter);
+    if (requeued === 0) {
+      logger.info(chalk.yellow("No failed PDFs match the given filters.\n"));
+      return;
+    }
+
+    logger.info(chalk.cyan(`Requeued ${requeued} failed PDFs\n`));
+
+    RateLimiter.saveLimits(queue, options.rateLimits);
+    CircuitBreaker.reset(queue);
+    saveRetryPolicy(queue, options.retryPolicy);
+
+    // Tasks that were already finished before the requeue
+    const baseline = before.completed + before.failed - requeued;
+
+    initProgressBars();
+    addPdfProgressTask("PDF Retries", requeued);
+
+    // Nothing downloads yet, so .part files are from an interrupted run;
+    // keep the ones the queue can resume
+    removeStalePartFiles(
+      getFilesDir(downloadDir, searchTerm),
+      queue.getPartialNames(),
+    );
+
+    const workerPool = new WorkerPool(
+      queue,
+      Math.min(options.workers, requeued),
+      searchTerm,
+      downloadDir,
+      {
+        verbose: options.verbose,
+        nameTemplate: options.nameTemplate,
+        isolation: options.isolation,
+        autoScale: options.autoScale,
+        onProgress: (progress) => {
+          const done = progress.completed + progress.failed - baseline;
+          updatePdfProgress("PDF Retries", done, requeued);
+        },
+        onWorkerEvent: (event, workers) => {
+          const state = workers.find((w) => w.workerId === event.workerId);
+          if (state) {
+            updateWorkerProgress(state);
+          }
+        },
+      },
+    );
+
+    await workerPool.start();
+    const poolResult = await workerPool.waitForCompletion();
+    closeProgressBars();
+
+    showQueueCounts("After retry", queue.getProgress());
+    const mediaCounts = formatMediaCounts(queue.getMediaTypeCounts());
+    if (mediaCounts) {
+      logger.info(chalk.green(`   By type: ${mediaCounts}`));
+    }
+    if (poolResult.restarts > 0) {
+      logger.info(chalk.yellow(`   ↻ Worker restarts: ${poolResult.restarts}`));
+    }
+  } finally {
+    closeProgressBars();
+    queue.close();
+  }
+}
+
+/**
+ * Print queue counts for a retry phase
+ */
+function showQueueCounts(label: string, progress: QueueProgress): void {
+  logger.info(chalk.cyan(`\n${label}:`));
+  logger.info(chalk.gray("   ─────────────────────────────"));
+  logger.info(chalk.green(`   ✓ Completed: ${progress.completed} PDFs`));
+  logger.info(chalk.gray(`   ⏸ Pending: ${progress.pending} PDFs`));
+  logger.info(
+    progress.failed > 0
+      ? chalk.red(`   ✗ Failed: ${progress.failed} PDFs`)
+      : chalk.gray(`   ✗ Failed: ${progress.failed} PDFs`),
+  );
+  logger.info(chalk.gray("   ─────────────────────────────"));
+  logger.info(chalk.white(`   Total: ${progress.total} PDFs`));
+  logger.info("");
+}
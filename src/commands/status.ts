@@ -0,0 +1,230 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import { TaskQueue } from "../workers/task-queue.js";
+import { CircuitBreaker } from "../workers/circuit-breaker.js";
+import type { PageStatus, PageSummary } from "../workers/types.js";
+import { logger } from "../utils/logger";
+import { formatMediaCounts } from "../utils/media.js";
+
+/**
+ * Options for the status command
+ */
+export interface StatusCommandOptions {
+  errors: number;
+}
+
+const PAGE_STATUS_NAMES: Record<PageStatus, string> = {
+  0: "pending",
+  1: "fetching",
+  2: "fetched",
+  3: "failed",
+};
+
+/**
+ * Status Command
+ *
+ * Prints the state of a cached search: queue counts, run metadata,
+ * per-page completion and the most recent errors. Never changes task or
+ * page state.
+ */
+export function showSearchStatus(
+  searchTerm: string,
+  downloadDir: string,
+  options: StatusCommandOptions,
+): void {
+  const queue = new TaskQueue(downloadDir, searchTerm, { readonly: true });
+
+  try {
+    const totalPages = queue.getMetadata("total_pages");
+    const totalPdfs = queue.getMetadata("total_pdfs");
+    const startTime = queue.getMetadata("start_time");
+    const fetchComplete = queue.getMetadata("json_fetch_complete") === "true";
+
+    logger.info(chalk.cyan(`\nStatus for "${searchTerm}"`));
+    logger.info(
+      chalk.gray(`   Queue: ${TaskQueue.getDbPath(downloadDir, searchTerm)}`),
+    );
+    logger.info(chalk.gray("   ─────────────────────────────"));
+    logger.info(chalk.white(`   Total pages: ${totalPages ?? "unknown"}`));
+    logger.info(chalk.white(`   Total PDFs: ${totalPdfs ?? "unknown"}`));
+    logger.info(
+      chalk.white(
+        `   Started: ${startTime ? new Date(parseInt(startTime, 10)).toLocaleString() : "unknown"}`,
+      ),
+    );
+    logger.info(
+      fetchComplete
+        ? chalk.green("   JSON fetch: complete")
+        : chalk.yellow("   JSON fetch: incomplete"),
+    );
+
+    const breaker = new CircuitBreaker(queue).getState();
+    if (breaker.state !== "closed") {
+      logger.info(
+        chalk.yellow(
+          `   Circuit breaker: ${breaker.state} since ${new Date(breaker.openedAt ?? Date.now()).toLocaleString()}`,
+        ),
+      );
+    } else if (breaker.trips > 0) {
+      logger.info(
+        chalk.white(`   Circuit breaker: closed (tripped ${breaker.trips}x)`),
+      );
+    }
+
+    const progress = queue.getProgress();
+    logger.info(chalk.cyan("\nPDFs:"));
+    logger.info(chalk.gray("   ─────────────────────────────"));
+    logger.info(chalk.green(`   ✓ Completed: ${progress.completed} PDFs`));
+    const mediaCounts = formatMediaCounts(queue.getMediaTypeCounts());
+    if (mediaCounts) {
+      logger.info(chalk.green(`     (${mediaCounts})`));
+    }
+    if (progress.skippedExisting > 0) {
+      logger.info(
+        chalk.gray(`   ↷ Already on disk: ${progress.skippedExisting} PDFs`),
+      );
+    }
+    logger.info(chalk.blue(`   ↻ In progress: ${progress.inProgress} PDFs`));
+    logger.info(chalk.gray(`   ⏸ Pending: ${progress.pending} PDFs`));
+    logger.info(
+      progress.failed > 0
+        ? chalk.red(`   ✗ Failed: ${progress.failed} PDFs`)
+        : chalk.gray(`   ✗ Failed: ${progress.failed} PDFs`),
+    );
+    logger.info(chalk.gray("   ─────────────────────────────"));
+    logger.info(chalk.white(`   Total: ${progress.total} PDFs`));
+
+    showPageTable(queue.getPageSummaries());
+
+    const failures = queue.getRecentFailures(options.errors);
+    if (failures.length > 0) {
+      logger.info(chalk.cyan(`\nRecent errors (newest first):`));
+      for (const task of failures) {
+        const when = task.completedAt
+          ? new Date(task.completedAt).toLocaleString()
+          : "unknown time";
+        logger.info(
+          chalk.red(`   [page ${task.pageNumber}] ${task.pdfName}`) +
+            chalk.gray(` (${when})`),
+        );
+        logger.info(chalk.gray(`      ${firstLine(task.error)}`));
+      }
+    }
+
+    logger.info("");
+  } finally {
+    queue.close();
+  }
+}
+
+/**
+ * List every search cached in a download directory with its queue counts
+ */
+export function showAllSearches(downloadDir: string): void {
+  const searchTerms = listCachedSearches(downloadDir);
+
+  if (searchTerms.length === 0) {
+    logger.info(
+      chalk.yellow(`No cached searches found in ${downloadDir}/cache\n`),
+    );
+    return;
+  }
+
+  logger.info(chalk.cyan(`\nCached searches in ${downloadDir}:`));
+  logger.info(chalk.gray("   ─────────────────────────────"));
+
+  for (const searchTerm of searchTerms) {
+    let queue: TaskQueue;
+    try {
+      queue = new TaskQueue(downloadDir, searchTerm, { readonly: true });
+    } catch (error) {
+      logger.info(
+        chalk.red(
+          `   ${searchTerm}: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      continue;
+    }
+
+    try {
+      const progress = queue.getProgress();
+      const fetchComplete = queue.getMetadata("json_fetch_complete") === "true";
+      const isFinished =
+        fetchComplete && progress.pending === 0 && progress.inProgress === 0;
+      const state = isFinished
+        ? progress.failed > 0
+          ? chalk.red("finished with failures")
+          : chalk.green("finished")
+        : chalk.yellow("unfinished");
+
+      logger.info(
+        chalk.white(`   ${searchTerm}: `) +
+          chalk.gray(
+            `${progress.completed}/${progress.total} completed, ${progress.failed} failed, ${progress.pending + progress.inProgress} pending — `,
+          ) +
+          state,
+      );
+    } finally {
+      queue.close();
+    }
+  }
+
+  logger.info("");
+}
+
+/**
+ * Find search terms with a queue database under {downloadDir}/cache/
+ */
+function listCachedSearches(downloadDir: string): string[] {
+  const cacheDir = path.join(downloadDir, "cache");
+  if (!fs.existsSync(cacheDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(cacheDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .filter((searchTerm) => TaskQueue.existsFor(downloadDir, searchTerm))
+    .sort();
+}
+
+/**
+ * Print per-page fetch state and completion
+ */
+function showPageTable(pages: PageSummary[]): void {
+  if (pages.length === 0) {
+    return;
+  }
+
+  logger.info(chalk.cyan("\nPages:"));
+  logger.info(chalk.gray("   Page    Fetch     Done/Total  Failed"));
+
+  for (const page of pages) {
+    const line =
+      `   ${String(page.pageNumber).padEnd(7)} ` +
+      `${PAGE_STATUS_NAMES[page.fetchStatus].padEnd(9)} ` +
+      `${`${page.completed}/${page.total}`.padEnd(11)} ` +
+      `${page.failed}`;
+
+    if (page.fetchStatus === 3) {
+      logger.info(
+        chalk.red(line) + chalk.gray(` ${firstLine(page.fetchError)}`),
+      );
+    } else if (page.failed > 0) {
+      logger.info(chalk.red(line));
+    } else if (page.total > 0 && page.completed === page.total) {
+      logger.info(chalk.green(line));
+    } else {
+      logger.info(chalk.white(line));
+    }
+  }
+}
+
+/**
+ * First line of an error message (stack traces and HTML bodies are long)
+ */
+function firstLine(text: string | null): string {
+  return (text || "Unknown error").split("\n")[0]!.trim();
+}
@@ -1,12 +1,23 @@
 import chalk from "chalk";
 import fs from "fs";
 import path from "path";
-import { PromptType, type PrefixMode } from "../types/enums";
+import { PromptType } from "../types/enums";
 import { JUSTICE_GOV_SEARCH_URL } from "../types/constants";
 import { getAsciiArt } from "./ascii.js";
-import { closeBrowser, fetchPageContent } from "../browserless/browser-client";
+import {
+  PART_FILE_SUFFIX,
+  closeBrowser,
+  fetchPageContent,
+} from "../browserless/browser-client";
 import { prompt } from "./prompt";
 import { closeProgressBars } from "./progress.js";
+import { getJsonDir, getMediaDir } from "./layout.js";
+import { MEDIA_TYPES, formatMediaCounts, type MediaCounts } from "./media.js";
+import {
+  existingNamePattern,
+  renderFileName,
+  type NameFields,
+} from "./naming.js";
 
 export interface SearchResult {
   hits: {
@@ -16,6 +27,7 @@ export interface SearchResult {
         ORIGIN_FILE_NAME: string;
         ORIGIN_FILE_URI: string;
         fileSize: number;
+        [field: string]: unknown; // Available to name templates
       };
     }>;
   };
@@ -25,52 +37,131 @@ type ExistingFileResult = {
   filePath: string;
   needsRename: boolean;
   targetName: string;
+  bytes: number; // size on disk
 };
 
+/**
+ * Find a file of a search hit already on disk (exactly the size from the
+ * search results) and the name it should have now
+ * Only names the current template could have given the document match:
+ * the same name with another page, index or date (e.g. "3-EFTA00340369.pdf"
+ * for "{page}-{name}" on page 2). The extension the file was saved with is
+ * kept, as it may have been fixed to the detected media type. A {date} is
+ * filled with the time a file was saved (its modification time), so it
+ * stays stable.
+ */
 export function findExistingPdfFile(
-  fileName: string,
   directory: string,
-  fileSize: number,
-  prefix: string | undefined,
+  nameTemplate: string,
+  fields: NameFields,
 ): ExistingFileResult | null {
-  const exactPath = path.join(directory, fileName);
+  const { fileSize } = fields;
+  const targetName = renderFileName(nameTemplate, fields);
+  const targetPath = path.join(directory, targetName);
 
-  // Check 1: Exact match (file exists with exact name and size)
-  if (fs.existsSync(exactPath)) {
-    const stats = fs.statSync(exactPath);
-    if (stats.size === fileSize) {
+  // Check 1: Exact match (file exists with the target name and size)
+  if (fs.existsSync(targetPath)) {
+    const stats = fs.statSync(targetPath);
+    if (fileSize > 0 && stats.size === fileSize) {
       return {
-        filePath: exactPath,
+        filePath: targetPath,
         needsRename: false,
-        targetName: fileName,
+        targetName,
+        bytes: stats.size,
       };
     }
   }
 
-  // Check 2: Look for files ending with "-{fileName}" (any prefix)
-  // This handles cases like: "7-EFTA00340369.pdf" or "EPSTEIN-EFTA00340369.pdf"
-  const files = fs.readdirSync(directory);
-  const pattern = new RegExp(`-${fileName}$`); // ends with "-EFTA00340369.pdf"
-
-  for (const file of files) {
-    if (pattern.test(file)) {
-      const filePath = path.join(directory, file);
-      const stats = fs.statSync(filePath);
-      if (stats.size === fileSize) {
-        // Found file with different prefix - calculate target name
-        const targetName = prefix ? `${prefix}-${fileName}` : fileName;
-        return {
-          filePath,
-          needsRename: file !== targetName,
-          targetName,
-        };
-      }
+  // Check 2: The name the template gave it in an earlier run
+  const pattern = existingNamePattern(nameTemplate, fields);
+
+  for (const file of fs.readdirSync(directory)) {
+    if (file.endsWith(PART_FILE_SUFFIX) || !pattern.test(file)) {
+      continue;
+    }
+
+    const filePath = path.join(directory, file);
+    const stats = fs.statSync(filePath);
+    if (stats.isFile() && fileSize > 0 && stats.size === fileSize) {
+      // Keep the extension it was saved with
+      const savedName = renderFileName(nameTemplate, {
+        ...fields,
+        savedAt: stats.mtime,
+      });
+      const extension = path.extname(file);
+      const targetExtension = path.extname(savedName);
+      const name =
+        extension.toLowerCase() === targetExtension.toLowerCase()
+          ? savedName
+          : `${savedName.slice(0, savedName.length - targetExtension.length)}${extension}`;
+      return {
+        filePath,
+        needsRename: file !== name,
+        targetName: name,
+        bytes: stats.size,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find a file of a search hit already downloaded for a search term, in the
+ * files folder or any media folder (the detected format may differ from
+ * the original file name)
+ */
+export function findExistingDownload(
+  downloadDir: string,
+  nameTemplate: string,
+  fields: NameFields,
+): ExistingFileResult | null {
+  for (const mediaType of MEDIA_TYPES) {
+    const directory = getMediaDir(downloadDir, fields.searchTerm, mediaType);
+    if (!fs.existsSync(directory)) {
+      continue;
+    }
+
+    const existing = findExistingPdfFile(directory, nameTemplate, fields);
+    if (existing) {
+      return existing;
     }
   }
 
   return null;
 }
 
+/**
+ * Delete `.part` files left behind by interrupted downloads, except the ones
+ * in `keep` (resumable) and the ones written to in the last `minAgeMs` (a
+ * download of another run may still be writing them)
+ * Returns the number of files removed.
+ */
+export function removeStalePartFiles(
+  directory: string,
+  keep: Set<string> = new Set(),
+  minAgeMs = 0,
+): number {
+  if (!fs.existsSync(directory)) {
+    return 0;
+  }
+
+  const now = Date.now();
+  const partFiles = fs
+    .readdirSync(directory)
+    .filter(
+      (file) =>
+        file.endsWith(PART_FILE_SUFFIX) &&
+        !keep.has(file) &&
+        now - fs.statSync(path.join(directory, file)).mtimeMs >= minAgeMs,
+    );
+  for (const file of partFiles) {
+    fs.rmSync(path.join(directory, file), { force: true });
+  }
+
+  return partFiles.length;
+}
+
 export async function fetchSearchResults(
   searchTerm: string,
   page: number,
@@ -80,8 +171,8 @@ export async function fetchSearchResults(
     searchTerm,
   )}&page=${page}`;
 
-  // Create directory structure: {baseDirectory}/{searchTerm}/json/
-  const jsonOutputDir = path.join(baseDirectory, searchTerm, "json");
+  // Same folder as parallel mode: {baseDirectory}/cache/{searchTerm}/json/
+  const jsonOutputDir = getJsonDir(baseDirectory, searchTerm);
 
   const { jsonData, jsonFilePath } = await fetchPageContent(url, {
     saveJson: true,
@@ -192,11 +283,10 @@ export function showConfiguration(
   startPage: number,
   isPageExplicitlySet: boolean,
   allFlag: boolean,
-  prefixMode: PrefixMode,
-  customPrefix: string | undefined,
+  nameTemplate: string,
   isVerbose: boolean,
   useParallel: boolean,
-  workers: number,
+  workers: number | "auto",
 ): void {
   console.log(chalk.cyan("\nCollected inputs:"));
   console.log(chalk.white(`  Search term: ${searchTerm}`));
@@ -213,13 +303,7 @@ export function showConfiguration(
   }
 
   console.log(chalk.white(`  Directory: ${baseDirectory}`));
-  if (prefixMode === "custom") {
-    console.log(chalk.white(`  Prefix: ${customPrefix} (custom)`));
-  } else if (prefixMode === "page") {
-    console.log(chalk.white(`  Prefix: page number`));
-  } else {
-    console.log(chalk.white(`  Prefix: none`));
-  }
+  console.log(chalk.white(`  File names: ${nameTemplate}`));
 
   if (useParallel) {
     console.log(chalk.white(`  Download mode: Parallel (${workers} workers)`));
@@ -241,7 +325,7 @@ export async function promptForCleanup(
       console.log(chalk.gray("Cache preserved for potential resume"));
       return;
     }
-    const jsonDir = path.join(baseDirectory, searchTerm, "json");
+    const jsonDir = getJsonDir(baseDirectory, searchTerm);
     if (fs.existsSync(jsonDir)) {
       try {
         fs.rmSync(jsonDir, { recursive: true, force: true });
@@ -268,7 +352,7 @@ export async function promptForCleanup(
   });
 
   if (cleanupChoice === "yes") {
-    const jsonDir = path.join(baseDirectory, searchTerm, "json");
+    const jsonDir = getJsonDir(baseDirectory, searchTerm);
     if (fs.existsSync(jsonDir)) {
       try {
         fs.rmSync(jsonDir, { recursive: true, force: true });
@@ -287,12 +371,17 @@ export async function promptForCleanup(
 export function showDownloadSummary(
   successCount: number,
   failCount: number,
+  mediaCounts: MediaCounts = {},
 ): void {
   console.log(chalk.cyan(`\n========================================`));
   console.log(chalk.cyan(`Download Summary:`));
-  console.log(chalk.green(`  Total PDFs Downloaded: ${successCount}`));
+  console.log(chalk.green(`  Total Files Downloaded: ${successCount}`));
+  const counts = formatMediaCounts(mediaCounts);
+  if (counts) {
+    console.log(chalk.green(`    ${counts}`));
+  }
   if (failCount > 0) {
-    console.log(chalk.red(`  Total PDFs Failed: ${failCount}`));
+    console.log(chalk.red(`  Total Files Failed: ${failCount}`));
   }
   console.log(chalk.cyan(`========================================`));
 }
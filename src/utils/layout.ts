@@ -0,0 +1,97 @@
+import path from "path";
+import { MEDIA_FOLDERS, MEDIA_TYPES, type MediaType } from "./media.js";
+
+/**
+ * On-disk layout of a download directory
+ *
+ * Sequential and parallel mode both use it, so switching modes finds the
+ * files already downloaded:
+ *
+ *   {dir}/catalog.db                      documents seen by any search term
+ *   {dir}/cache/{term}/json/              search results pages
+ *   {dir}/cache/{term}/{term}.db          queue (parallel mode)
+ *   {dir}/files/{term}/                   PDFs
+ *   {dir}/files/{term}/{videos,audio,images,other}/
+ *
+ * `ef-dl migrate-layout` moves downloads of older layouts into it.
+ */
+
+/**
+ * Cache folder of a search term (JSON pages, queue, dry run plan)
+ */
+export function getCacheDir(downloadDir: string, searchTerm: string): string {
+  return path.join(downloadDir, "cache", searchTerm);
+}
+
+/**
+ * Folder the search results pages are saved to
+ */
+export function getJsonDir(downloadDir: string, searchTerm: string): string {
+  return path.join(getCacheDir(downloadDir, searchTerm), "json");
+}
+
+/**
+ * Queue database of a search term
+ */
+export function getQueueDbPath(
+  downloadDir: string,
+  searchTerm: string,
+): string {
+  return path.join(getCacheDir(downloadDir, searchTerm), `${searchTerm}.db`);
+}
+
+/**
+ * Dry run plan of a search term
+ */
+export function getPlanPath(downloadDir: string, searchTerm: string): string {
+  return path.join(getCacheDir(downloadDir, searchTerm), "plan.json");
+}
+
+/**
+ * Catalog database shared by all search terms
+ */
+export function getCatalogDbPath(downloadDir: string): string {
+  return path.join(downloadDir, "catalog.db");
+}
+
+/**
+ * Folder the files of a search term are saved to (PDFs directly)
+ */
+export function getFilesDir(downloadDir: string, searchTerm: string): string {
+  return path.join(downloadDir, "files", searchTerm);
+}
+
+/**
+ * Folder for files of a media type: PDFs in the files folder, other media
+ * in a subfolder of it
+ */
+export function getMediaDir(
+  downloadDir: string,
+  searchTerm: string,
+  mediaType: MediaType,
+): string {
+  const filesDir = getFilesDir(downloadDir, searchTerm);
+  return mediaType === "pdf"
+    ? filesDir
+    : path.join(filesDir, MEDIA_FOLDERS[mediaType]);
+}
+
+/**
+ * Folders of the layout sequential mode used before, for a search term
+ * ({dir}/{term}/json, {dir}/{term}/pdfs and a folder per media type)
+ */
+export function getLegacyDirs(
+  downloadDir: string,
+  searchTerm: string,
+): { root: string; jsonDir: string; mediaDirs: Record<MediaType, string> } {
+  const root = path.join(downloadDir, searchTerm);
+  const mediaDirs = {} as Record<MediaType, string>;
+  for (const mediaType of MEDIA_TYPES) {
+    mediaDirs[mediaType] = path.join(root, MEDIA_FOLDERS[mediaType]);
+  }
+
+  return { root, jsonDir: path.join(root, "json"), mediaDirs };
+}
+
+/** Top-level folders of the layout (never a search term) */
+export const LAYOUT_FOLDERS = ["cache", "files"];
@@ -0,0 +1,210 @@
+import path from "path";
+
+/**
+ * Kinds of files the multimedia search returns
+ */
+export type MediaType = "pdf" | "video" | "audio" | "image" | "other";
+
+/**
+ * A recognized file format; the first extension is the one files get
+ */
+export type MediaFormat = {
+  type: MediaType;
+  extensions: string[];
+};
+
+/**
+ * Number of files per media type
+ */
+export type MediaCounts = Partial<Record<MediaType, number>>;
+
+/** Order of media types in progress and summaries */
+export const MEDIA_TYPES: MediaType[] = [
+  "pdf",
+  "video",
+  "audio",
+  "image",
+  "other",
+];
+
+/** Folder files of each media type are saved to */
+export const MEDIA_FOLDERS: Record<MediaType, string> = {
+  pdf: "pdfs",
+  video: "videos",
+  audio: "audio",
+  image: "images",
+  other: "other",
+};
+
+/** Plural label of each media type */
+export const MEDIA_LABELS: Record<MediaType, string> = {
+  pdf: "PDFs",
+  video: "videos",
+  audio: "audio files",
+  image: "images",
+  other: "other files",
+};
+
+const FORMATS = {
+  pdf: { type: "pdf", extensions: [".pdf"] },
+  mp4: { type: "video", extensions: [".mp4", ".m4v"] },
+  mov: { type: "video", extensions: [".mov"] },
+  avi: { type: "video", extensions: [".avi"] },
+  mkv: { type: "video", extensions: [".mkv"] },
+  webm: { type: "video", extensions: [".webm"] },
+  wmv: { type: "video", extensions: [".wmv", ".wma", ".asf"] },
+  mpeg: { type: "video", extensions: [".mpg", ".mpeg"] },
+  mp3: { type: "audio", extensions: [".mp3"] },
+  m4a: { type: "audio", extensions: [".m4a"] },
+  wav: { type: "audio", extensions: [".wav"] },
+  ogg: { type: "audio", extensions: [".ogg", ".oga"] },
+  flac: { type: "audio", extensions: [".flac"] },
+  jpg: { type: "image", extensions: [".jpg", ".jpeg"] },
+  png: { type: "image", extensions: [".png"] },
+  gif: { type: "image", extensions: [".gif"] },
+  tiff: { type: "image", extensions: [".tif", ".tiff"] },
+  bmp: { type: "image", extensions: [".bmp"] },
+  webp: { type: "image", extensions: [".webp"] },
+  heic: { type: "image", extensions: [".heic"] },
+} satisfies Record<string, MediaFormat>;
+
+/** Content-Type of each format, for bodies without a known signature */
+const CONTENT_TYPES: Record<string, MediaFormat> = {
+  "application/pdf": FORMATS.pdf,
+  "video/mp4": FORMATS.mp4,
+  "video/quicktime": FORMATS.mov,
+  "video/x-msvideo": FORMATS.avi,
+  "video/x-matroska": FORMATS.mkv,
+  "video/webm": FORMATS.webm,
+  "video/x-ms-wmv": FORMATS.wmv,
+  "video/x-ms-asf": FORMATS.wmv,
+  "video/mpeg": FORMATS.mpeg,
+  "audio/mpeg": FORMATS.mp3,
+  "audio/mp4": FORMATS.m4a,
+  "audio/x-m4a": FORMATS.m4a,
+  "audio/wav": FORMATS.wav,
+  "audio/x-wav": FORMATS.wav,
+  "audio/ogg": FORMATS.ogg,
+  "audio/flac": FORMATS.flac,
+  "image/jpeg": FORMATS.jpg,
+  "image/png": FORMATS.png,
+  "image/gif": FORMATS.gif,
+  "image/tiff": FORMATS.tiff,
+  "image/bmp": FORMATS.bmp,
+  "image/webp": FORMATS.webp,
+  "image/heic": FORMATS.heic,
+};
+
+/** Start of an HTML document (challenge or error page) */
+const HTML_PATTERN = /^\s*(<!doctype html|<html|<head|<body)|<html[\s>]/i;
+
+/**
+ * Whether the first bytes of a file (latin1 text) are an HTML page
+ */
+export function isHtmlDocument(header: string): boolean {
+  return HTML_PATTERN.test(header);
+}
+
+/**
+ * Recognize a format from the first bytes of a file (latin1 text)
+ * Returns null for unknown content
+ */
+export function detectFormat(header: string): MediaFormat | null {
+  const at = (offset: number, signature: string) =>
+    header.startsWith(signature, offset);
+
+  // ISO media (MP4, MOV, M4A, HEIC): box size, then "ftyp" and the brand
+  if (at(4, "ftyp")) {
+    const brand = header.slice(8, 12);
+    if (brand === "qt  ") return FORMATS.mov;
+    if (brand.startsWith("M4A")) return FORMATS.m4a;
+    if (brand.startsWith("hei") || brand.startsWith("mif1")) {
+      return FORMATS.heic;
+    }
+    return FORMATS.mp4;
+  }
+  if (at(0, "RIFF")) {
+    if (at(8, "WAVE")) return FORMATS.wav;
+    if (at(8, "AVI ")) return FORMATS.avi;
+    if (at(8, "WEBP")) return FORMATS.webp;
+  }
+  if (at(0, "\x1a\x45\xdf\xa3")) {
+    return header.includes("webm") ? FORMATS.webm : FORMATS.mkv;
+  }
+  if (at(0, "\x30\x26\xb2\x75\x8e\x66\xcf\x11")) return FORMATS.wmv;
+  if (at(0, "\x00\x00\x01\xba") || at(0, "\x00\x00\x01\xb3")) {
+    return FORMATS.mpeg;
+  }
+  if (at(0, "ID3") || /^\xff[\xf2\xf3\xfb]/.test(header)) return FORMATS.mp3;
+  if (at(0, "OggS")) return FORMATS.ogg;
+  if (at(0, "fLaC")) return FORMATS.flac;
+  if (at(0, "\xff\xd8\xff")) return FORMATS.jpg;
+  if (at(0, "\x89PNG\r\n\x1a\n")) return FORMATS.png;
+  if (at(0, "GIF87a") || at(0, "GIF89a")) return FORMATS.gif;
+  if (at(0, "II*\x00") || at(0, "MM\x00*")) return FORMATS.tiff;
+  if (at(0, "BM")) return FORMATS.bmp;
+
+  // Readers accept junk before the PDF signature, but an HTML page that
+  // mentions it (an error page about a PDF) is not one
+  if (at(0, "%PDF-")) return FORMATS.pdf;
+  if (header.includes("%PDF-") && !isHtmlDocument(header)) return FORMATS.pdf;
+
+  return null;
+}
+
+/**
+ * Format named by a Content-Type header (null: unknown or generic)
+ */
+export function formatFromContentType(
+  contentType: string | null,
+): MediaFormat | null {
+  const mimeType = contentType?.split(";")[0]!.trim().toLowerCase();
+  return mimeType ? (CONTENT_TYPES[mimeType] ?? null) : null;
+}
+
+/**
+ * Media type a file name suggests by its extension
+ */
+export function getMediaType(fileName: string): MediaType {
+  const extension = path.extname(fileName).toLowerCase();
+  const format = Object.values(FORMATS).find((candidate) =>
+    candidate.extensions.includes(extension),
+  );
+  return format?.type ?? "other";
+}
+
+/**
+ * Give a file name the extension of its detected format
+ * Names that already use one of the format's extensions are kept
+ */
+export function withFormatExtension(
+  fileName: string,
+  format: MediaFormat,
+): string {
+  const extension = path.extname(fileName);
+  if (
+    format.extensions.length === 0 ||
+    format.extensions.includes(extension.toLowerCase())
+  ) {
+    return fileName;
+  }
+
+  const stem = extension ? fileName.slice(0, -extension.length) : fileName;
+  return `${stem}${format.extensions[0]}`;
+}
+
+/**
+ * Add a file to the count of its media type
+ */
+export function countMedia(counts: MediaCounts, type: MediaType): void {
+  counts[type] = (counts[type] ?? 0) + 1;
+}
+
+/**
+ * Count per media type as "12 PDFs, 3 videos" (empty types left out)
+ */
+export function formatMediaCounts(counts: MediaCounts): string {
+  return MEDIA_TYPES.filter((type) => (counts[type] ?? 0) > 0)
+    .map((type) => `${counts[type]} ${MEDIA_LABELS[type]}`)
+    .join(", ");
+}
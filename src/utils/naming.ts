@@ -0,0 +1,225 @@
+import path from "path";
+import type { PrefixMode } from "../types/enums";
+
+/**
+ * File name templates
+ *
+ * Placeholders:
+ *
+ *   {name}   original file name (EFTA00000001.pdf)
+ *   {stem}   original file name without its extension (EFTA00000001)
+ *   {ext}    extension of the original file name (.pdf)
+ *   {page}   search results page
+ *   {term}   search term
+ *   {index}  position of the hit on its page, from 1
+ *   {size}   file size in bytes, from the search results
+ *   {date}   date the file was saved (YYYY-MM-DD)
+ *   {FIELD}  any field of the hit's _source, e.g. {ORIGIN_FILE_URI}
+ *
+ * "{{" and "}}" stand for literal braces.
+ *
+ * A template must keep {name} or {stem}, so every file gets its own name,
+ * and must end with {name} or {ext}, so the extension can be fixed to the
+ * detected media type. Existing files are recognized by the same template,
+ * with any {page}, {index} or {date} (see existingNamePattern).
+ */
+
+/** Original file name (prefix mode none) */
+export const DEFAULT_NAME_TEMPLATE = "{name}";
+
+/**
+ * Values a template is filled with
+ */
+export interface NameFields {
+  fileName: string;
+  pageNumber: number;
+  searchTerm: string;
+  index: number | null; // null: unknown
+  fileSize: number;
+  source: Record<string, unknown> | null; // _source of the search hit
+  savedAt?: Date; // existing files: when they were saved (default: now)
+}
+
+/** A placeholder, or an escaped brace ("{{", "}}") */
+const PLACEHOLDER_PATTERN = /\{\{|\}\}|\{([A-Za-z0-9_.-]+)\}/g;
+
+/** Characters not allowed in file names on common file systems */
+const UNSAFE_CHARACTERS = /[\/\\:*?"<>|\x00-\x1f]/g;
+
+/**
+ * Placeholders whose value can change between runs for the same document
+ * (it moved to another page, or was saved on another day)
+ */
+const VARIABLE_PLACEHOLDERS: Record<string, string> = {
+  page: "\\d+",
+  index: "\\d*",
+  date: "\\d{4}-\\d{2}-\\d{2}",
+};
+
+/** Extension of a saved file, which may be fixed to its detected format */
+const SAVED_EXTENSION = "(?:\\.[A-Za-z0-9]+)?";
+
+/**
+ * Check a template given on the command line and return it
+ * Throws if it is empty, contains a path separator, lacks {name} and
+ * {stem} or does not end with {name} or {ext}. Errors name `optionName`,
+ * the option the template came from.
+ */
+export function parseNameTemplate(
+  template: string,
+  optionName = "--name-template",
+): string {
+  const trimmed = template.trim();
+  if (!trimmed) {
+    throw new Error(`${optionName} cannot be empty`);
+  }
+  if (/[\/\\]/.test(trimmed)) {
+    throw new Error(`${optionName} cannot contain path separators`);
+  }
+
+  const matches = [...trimmed.matchAll(PLACEHOLDER_PATTERN)];
+  const placeholders = matches.map((match) => match[1]);
+  if (!placeholders.includes("name") && !placeholders.includes("stem")) {
+    throw new Error(`${optionName} must contain {name} or {stem}`);
+  }
+
+  const last = matches.at(-1);
+  if (
+    !last ||
+    last.index + last[0].length !== trimmed.length ||
+    (last[1] !== "name" && last[1] !== "ext")
+  ) {
+    throw new Error(
+      `${optionName} must end with {name} or {ext}, e.g. {page}-{stem}{ext}`,
+    );
+  }
+
+  return trimmed;
+}
+
+/**
+ * Template the none/page/custom prefix modes stand for
+ * Check it with parseNameTemplate: a custom prefix can still make it
+ * invalid (e.g. with a path separator)
+ */
+export function templateFromPrefix(
+  prefixMode: PrefixMode,
+  customPrefix: string | undefined,
+): string {
+  if (prefixMode === "custom" && customPrefix) {
+    const literal = customPrefix.replace(/[{}]/g, "$&$&");
+    return `${literal}-${DEFAULT_NAME_TEMPLATE}`;
+  }
+  if (prefixMode === "page") {
+    return `{page}-${DEFAULT_NAME_TEMPLATE}`;
+  }
+  return DEFAULT_NAME_TEMPLATE;
+}
+
+/**
+ * File name a template gives a search hit
+ * Unknown placeholders are left empty; characters not allowed in file names
+ * are replaced with "_"
+ */
+export function renderFileName(template: string, fields: NameFields): string {
+  const fileName = template.replace(
+    PLACEHOLDER_PATTERN,
+    (match, key: string | undefined) =>
+      key === undefined
+        ? match[0]! // Escaped brace
+        : getPlaceholderValue(key, fields),
+  );
+
+  return fileName.trim() || fields.fileName;
+}
+
+/**
+ * Pattern of the names a template gave the same document in earlier runs
+ * Literal parts, {name}, {stem} and the other fields must match exactly;
+ * {page}, {index} and {date} may hold any value, and the trailing extension
+ * may have been fixed to the detected format. A file of another document,
+ * or saved under another template, never matches.
+ */
+export function existingNamePattern(
+  template: string,
+  fields: NameFields,
+): RegExp {
+  const matches = [...template.matchAll(PLACEHOLDER_PATTERN)];
+  let source = "";
+  let position = 0;
+
+  for (const match of matches) {
+    const key = match[1];
+    source += escapeRegExp(template.slice(position, match.index));
+    position = match.index + match[0].length;
+
+    if (key === undefined) {
+      source += escapeRegExp(match[0][0]!); // Escaped brace
+    } else if (position === template.length && key === "name") {
+      source += escapeRegExp(getPlaceholderValue("stem", fields));
+      source += SAVED_EXTENSION;
+    } else if (position === template.length && key === "ext") {
+      source += SAVED_EXTENSION;
+    } else if (Object.hasOwn(VARIABLE_PLACEHOLDERS, key)) {
+      source += VARIABLE_PLACEHOLDERS[key];
+    } else {
+      source += escapeRegExp(getPlaceholderValue(key, fields));
+    }
+  }
+  source += escapeRegExp(template.slice(position));
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Value of a placeholder, safe for file names
+ * Unknown placeholders are empty
+ */
+function getPlaceholderValue(key: string, fields: NameFields): string {
+  const extension = path.extname(fields.fileName);
+  const values: Record<string, string> = {
+    name: fields.fileName,
+    stem: fields.fileName.slice(0, fields.fileName.length - extension.length),
+    ext: extension,
+    page: String(fields.pageNumber),
+    term: fields.searchTerm,
+    index: fields.index === null ? "" : String(fields.index),
+    size: String(fields.fileSize),
+    date: formatDate(fields.savedAt ?? new Date()),
+  };
+
+  const value = Object.hasOwn(values, key)
+    ? values[key]!
+    : fields.source && Object.hasOwn(fields.source, key)
+      ? formatSourceValue(fields.source[key])
+      : "";
+  return value.replace(UNSAFE_CHARACTERS, "_");
+}
+
+/**
+ * Escape text for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Text of a _source value (lists joined with ",", objects left empty)
+ */
+function formatSourceValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(formatSourceValue).join(",");
+  }
+  return ["string", "number", "boolean"].includes(typeof value)
+    ? String(value)
+    : "";
+}
+
+/**
+ * Local date as YYYY-MM-DD
+ */
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -1,9 +1,14 @@
 import { MultiProgressBars } from "multi-progress-bars";
 import chalk from "chalk";
+import type { WorkerState } from "../workers/types.js";
+import { formatMediaCounts, type MediaCounts } from "./media.js";
 
 // Progress bar manager singleton
 let mpb: MultiProgressBars | null = null;
 
+// Worker bars added so far (added on a worker's first event)
+const workerTasks = new Set<string>();
+
 /**
  * Initialize the progress bar manager
  */
@@ -34,6 +39,7 @@ export function closeProgressBars(): void {
     mpb.close();
     mpb = null;
   }
+  workerTasks.clear();
 }
 
 /**
@@ -53,7 +59,7 @@ export function addJsonProgressTask(
 }
 
 /**
- * Add a PDF download progress task (Green)
+ * Add a file download progress task (Green)
  */
 export function addPdfProgressTask(taskName: string, totalPdfs: number): void {
   const bars = initProgressBars();
@@ -61,7 +67,7 @@ export function addPdfProgressTask(taskName: string, totalPdfs: number): void {
     type: "percentage",
     barTransformFn: chalk.green,
     nameTransformFn: chalk.green.bold,
-    message: `0/${totalPdfs} PDFs`,
+    message: `0/${totalPdfs} files`,
   });
 }
 
@@ -82,18 +88,65 @@ export function updateJsonProgress(
 }
 
 /**
- * Update PDF progress
+ * Update file download progress, with the downloads per media type if given
  */
 export function updatePdfProgress(
   taskName: string,
   currentPdf: number,
   totalPdfs: number,
+  mediaCounts?: MediaCounts,
 ): void {
   if (!mpb) return;
   const percentage = currentPdf / totalPdfs;
+  const counts = mediaCounts ? formatMediaCounts(mediaCounts) : "";
+  mpb.updateTask(taskName, {
+    percentage,
+    message: `${currentPdf}/${totalPdfs} files${counts ? ` (${counts})` : ""}`,
+  });
+}
+
+/**
+ * Show the live state of a worker as its own bar (Cyan)
+ * Does nothing until the progress bars are initialized
+ */
+export function updateWorkerProgress(state: WorkerState): void {
+  if (!mpb) return;
+
+  const taskName = state.workerId;
+  if (!workerTasks.has(taskName)) {
+    mpb.addTask(taskName, {
+      type: "percentage",
+      barTransformFn: chalk.cyan,
+      nameTransformFn: chalk.cyan,
+    });
+    workerTasks.add(taskName);
+  }
+
+  const counts =
+    `✓${state.completed} ✗${state.failed}` +
+    (state.skipped > 0 ? ` ↷${state.skipped}` : "");
+  if (state.activity === "exited") {
+    mpb.done(taskName, {
+      message: `exited (${counts})`,
+      barTransformFn: chalk.gray,
+    });
+    return;
+  }
+
+  const percentage =
+    state.activity === "downloading" && state.totalBytes
+      ? Math.min(1, state.bytes / state.totalBytes)
+      : 0;
+  const activity =
+    state.activity === "downloading"
+      ? `${state.pdfName}`
+      : state.activity === "retrying"
+        ? `retrying ${state.pdfName}`
+        : state.activity;
+
   mpb.updateTask(taskName, {
     percentage,
-    message: `${currentPdf}/${totalPdfs} PDFs`,
+    message: `${activity} (${counts})`,
   });
 }
 
@@ -0,0 +1,90 @@
+import fs from "fs";
+import {
+  detectFormat,
+  formatFromContentType,
+  getMediaType,
+  isHtmlDocument,
+  type MediaFormat,
+} from "./media.js";
+
+/** How much of the start of a file is inspected */
+const HEADER_BYTES = 1024;
+
+/** Allowed difference from the size in the search results */
+const SIZE_TOLERANCE = 0.02;
+
+/**
+ * Check a downloaded file before it gets its final name and return its format
+ *
+ * The format comes from the magic bytes, then the Content-Type, then the
+ * file name. Throws when the body is an HTML page, when a file named as a
+ * PDF has no known signature, or when the size differs from the search
+ * results (expectedSize 0 or null: unknown). The messages are worded for
+ * classifyError: an HTML page may be a challenge and a size mismatch a
+ * truncated body, so both are retried, while a file that is not a PDF fails
+ * fast.
+ */
+export function validateDownloadedFile(
+  filePath: string,
+  bytes: number,
+  options: {
+    fileName: string;
+    contentType: string | null;
+    expectedSize: number | null | undefined;
+  },
+): MediaFormat {
+  const header = readHeader(filePath);
+  const expectedType = getMediaType(options.fileName);
+
+  let format = detectFormat(header);
+  if (!format) {
+    if (isHtmlDocument(header)) {
+      throw new Error("Server returned an HTML page instead of the file");
+    }
+    if (expectedType === "pdf") {
+      throw new Error("Downloaded file is not a PDF (no %PDF- header)");
+    }
+    format = formatFromContentType(options.contentType) ?? {
+      type: expectedType,
+      extensions: [],
+    };
+  }
+
+  const { expectedSize } = options;
+  if (expectedSize && !matchesExpectedSize(bytes, expectedSize)) {
+    throw new Error(
+      `Downloaded size ${bytes} bytes does not match the expected ${expectedSize} bytes`,
+    );
+  }
+
+  return format;
+}
+
+/**
+ * Whether a download's size matches the size in the search results, within
+ * the tolerance downloads are accepted with (an unknown size, 0, never
+ * matches)
+ */
+export function matchesExpectedSize(
+  bytes: number,
+  expectedSize: number,
+): boolean {
+  return (
+    expectedSize > 0 &&
+    Math.abs(bytes - expectedSize) <= expectedSize * SIZE_TOLERANCE
+  );
+}
+
+/**
+ * Read the start of a file as text (latin1 keeps bytes one-to-one)
+ */
+function readHeader(filePath: string): string {
+  const buffer = Buffer.alloc(HEADER_BYTES);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const read = fs.readSync(fd, buffer, 0, HEADER_BYTES, 0);
+    return buffer.subarray(0, read).toString("latin1");
+  } finally {
+    fs.closeSync(fd);
+  }
+}
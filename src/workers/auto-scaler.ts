@@ -0,0 +1,123 @@
+import type { RecentOutcomes, ScalingDecision } from "./types.js";
+
+/** Bounds and starting point for `--workers auto` */
+export const AUTO_MIN_WORKERS = 1;
+export const AUTO_MAX_WORKERS = 10;
+export const AUTO_INITIAL_WORKERS = 2;
+
+/** How often the worker count is re-evaluated */
+export const SCALING_INTERVAL_MS = 15000;
+
+/** Outcomes older than this are ignored */
+export const SCALING_WINDOW_MS = 60000;
+
+/** Scale down at or above this failure rate */
+const HIGH_FAILURE_RATE = 0.25;
+
+/** Only scale up at or below this failure rate */
+const LOW_FAILURE_RATE = 0.05;
+
+/** Scale back down when latency grows this much after scaling up */
+const LATENCY_GROWTH_LIMIT = 1.5;
+
+/** Too few outcomes in the window to judge */
+const MIN_OUTCOMES = 3;
+
+/**
+ * Auto Scaler
+ *
+ * Decides the worker count for `--workers auto` from recent completion
+ * latency and failure rate in the queue:
+ * - failure rate high → remove a worker
+ * - latency grew a lot since the last scale up → remove that worker again
+ * - failures low and more pending work than workers → add a worker
+ * - otherwise hold
+ */
+export class AutoScaler {
+  private minWorkers: number;
+  private maxWorkers: number;
+  private target: number;
+  private latencyBeforeScaleUp: number | null;
+
+  constructor(
+    initialWorkers: number = AUTO_INITIAL_WORKERS,
+    minWorkers: number = AUTO_MIN_WORKERS,
+    maxWorkers: number = AUTO_MAX_WORKERS,
+  ) {
+    this.minWorkers = minWorkers;
+    this.maxWorkers = maxWorkers;
+    this.target = Math.max(minWorkers, Math.min(maxWorkers, initialWorkers));
+    this.latencyBeforeScaleUp = null;
+  }
+
+  /**
+   * Current target worker count
+   */
+  getTarget(): number {
+    return this.target;
+  }
+
+  /**
+   * Evaluate recent outcomes and return the new target with its reason
+   */
+  evaluate(outcomes: RecentOutcomes, pendingTasks: number): ScalingDecision {
+    const current = this.target;
+    const total = outcomes.completed + outcomes.failed;
+    const failureRate = total > 0 ? outcomes.failed / total : 0;
+    const latency = outcomes.avgDurationMs;
+    const stats = `${outcomes.completed} ok, ${outcomes.failed} failed, avg ${latency !== null ? `${(latency / 1000).toFixed(1)}s` : "n/a"}`;
+
+    const decide = (target: number, reason: string): ScalingDecision => {
+      this.target = target;
+      return { from: current, to: target, reason: `${reason} (${stats})` };
+    };
+
+    if (total < MIN_OUTCOMES) {
+      return decide(current, "not enough recent downloads to judge");
+    }
+
+    if (failureRate >= HIGH_FAILURE_RATE) {
+      this.latencyBeforeScaleUp = null;
+      if (current > this.minWorkers) {
+        return decide(
+          current - 1,
+          `failure rate ${(failureRate * 100).toFixed(0)}% is high`,
+        );
+      }
+      return decide(current, "failure rate is high but already at minimum");
+    }
+
+    if (
+      this.latencyBeforeScaleUp !== null &&
+      latency !== null &&
+      latency > this.latencyBeforeScaleUp * LATENCY_GROWTH_LIMIT &&
+      current > this.minWorkers
+    ) {
+      const before = this.latencyBeforeScaleUp;
+      this.latencyBeforeScaleUp = null;
+      return decide(
+        current - 1,
+        `latency grew from ${(before / 1000).toFixed(1)}s after scaling up`,
+      );
+    }
+
+    if (failureRate <= LOW_FAILURE_RATE && pendingTasks > current) {
+      if (current < this.maxWorkers) {
+        this.latencyBeforeScaleUp = latency;
+        return decide(current + 1, "healthy with pending work");
+      }
+      return decide(current, "healthy but already at maximum");
+    }
+
+    return decide(current, "stable");
+  }
+}
+
+/**
+ * Number of a worker from its id ("worker-3" → 3), compared against the
+ * worker limit: workers numbered above it exit or are not restarted
+ */
+export function getWorkerNumber(workerId: string): number {
+  const match = workerId.match(/(\d+)$/);
+  return match ? parseInt(match[1]!, 10) : 1;
+}
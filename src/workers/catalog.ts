@@ -0,0 +1,246 @@
+import Database from "bun:sqlite";
+import path from "path";
+import fs from "fs";
+import { getCatalogDbPath } from "../utils/layout.js";
+import type { CatalogDocument, CatalogStatus, PdfTask } from "./types.js";
+
+/** Fields of a search hit the catalog keys documents by */
+type CatalogHit = Pick<PdfTask, "pdfUrl" | "pdfName" | "fileSize">;
+
+/**
+ * Document Catalog
+ *
+ * SQLite-backed record of every document the tool has seen, shared across
+ * all search terms. Tracks which search terms matched each document and
+ * where (and whether) it was downloaded, so a document matching several
+ * search terms is only downloaded once.
+ *
+ * Catalog location: {downloadDir}/catalog.db
+ */
+export class DocumentCatalog {
+  private db: Database;
+  private dbPath: string;
+  private isClosed: boolean;
+
+  /**
+   * With `readonly`, nothing is written to disk: an existing catalog is
+   * opened read-only and a missing one is treated as empty
+   */
+  constructor(downloadDir: string, options: { readonly?: boolean } = {}) {
+    this.dbPath = DocumentCatalog.getDbPath(downloadDir);
+    this.isClosed = false;
+
+    if (options.readonly) {
+      if (fs.existsSync(this.dbPath)) {
+        this.db = new Database(this.dbPath, { readonly: true });
+        this.db.run("PRAGMA busy_timeout = 3000");
+      } else {
+        this.db = new Database(":memory:");
+        this.initializeTables();
+      }
+      return;
+    }
+
+    if (!fs.existsSync(downloadDir)) {
+      fs.mkdirSync(downloadDir, { recursive: true });
+    }
+
+    this.db = new Database(this.dbPath);
+
+    // Shared by the coordinator and all workers; set the busy timeout first
+    // so concurrent first opens wait for the WAL switch instead of failing
+    this.db.run("PRAGMA busy_timeout = 3000");
+    this.db.run("PRAGMA journal_mode = WAL");
+
+    this.initializeTables();
+  }
+
+  /**
+   * Resolve the catalog database path for a download directory
+   */
+  static getDbPath(downloadDir: string): string {
+    return getCatalogDbPath(downloadDir);
+  }
+
+  /**
+   * Initialize database tables
+   */
+  private initializeTables(): void {
+    // One row per document, keyed by its URL
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS documents (
+        pdf_url TEXT PRIMARY KEY,
+        pdf_name TEXT NOT NULL,
+        file_size INTEGER,
+        status INTEGER DEFAULT 0,
+        local_path TEXT,
+        bytes INTEGER,
+        first_seen_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Search terms that matched each document
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS document_terms (
+        pdf_url TEXT NOT NULL,
+        search_term TEXT NOT NULL,
+        first_seen_at INTEGER NOT NULL,
+        PRIMARY KEY (pdf_url, search_term)
+      )
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_documents_name ON documents(pdf_name)
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_document_terms_term ON document_terms(search_term)
+    `);
+  }
+
+  /**
+   * Record documents found by a search term
+   */
+  recordDocuments(pdfs: CatalogHit[], searchTerm: string): void {
+    const now = Date.now();
+
+    this.db.run("BEGIN TRANSACTION");
+
+    try {
+      for (const pdf of pdfs) {
+        this.db.run(
+          `
+          INSERT INTO documents
+          (pdf_url, pdf_name, file_size, status, first_seen_at, updated_at)
+          VALUES (?, ?, ?, 0, ?, ?)
+          ON CONFLICT(pdf_url) DO UPDATE SET
+            file_size = excluded.file_size, updated_at = excluded.updated_at
+        `,
+          [pdf.pdfUrl, pdf.pdfName, pdf.fileSize, now, now],
+        );
+        this.db.run(
+          `
+          INSERT OR IGNORE INTO document_terms (pdf_url, search_term, first_seen_at)
+          VALUES (?, ?, ?)
+        `,
+          [pdf.pdfUrl, searchTerm, now],
+        );
+      }
+      this.db.run("COMMIT");
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  /**
+   * Find a downloaded copy of a document: by URL, or else by file name if
+   * the size from the search results matches too (same document under
+   * another URL). Returns null if it was never downloaded or the file is gone
+   */
+  findDownloaded(pdf: CatalogHit): CatalogDocument | null {
+    let row = this.db
+      .query("SELECT * FROM documents WHERE pdf_url = ? AND status = 2")
+      .get(pdf.pdfUrl) as any;
+
+    // A name alone is not enough, unrelated documents can share one
+    if (!row && pdf.fileSize > 0) {
+      row = this.db
+        .query(
+          `
+        SELECT * FROM documents
+        WHERE pdf_name = ? AND file_size = ? AND status = 2
+        LIMIT 1
+      `,
+        )
+        .get(pdf.pdfName, pdf.fileSize) as any;
+    }
+
+    if (!row || !row.local_path || !fs.existsSync(row.local_path)) {
+      return null;
+    }
+
+    // File was replaced or truncated since it was recorded
+    if (fs.statSync(row.local_path).size !== row.bytes) {
+      return null;
+    }
+
+    return this.rowToDocument(row);
+  }
+
+  /**
+   * Get a document by URL
+   */
+  getDocument(pdfUrl: string): CatalogDocument | null {
+    const row = this.db
+      .query("SELECT * FROM documents WHERE pdf_url = ?")
+      .get(pdfUrl) as any;
+    return row ? this.rowToDocument(row) : null;
+  }
+
+  /**
+   * Record a completed download
+   */
+  markDownloaded(pdfUrl: string, localPath: string, bytes: number): void {
+    this.db.run(
+      `
+      UPDATE documents
+      SET status = 2, local_path = ?, bytes = ?, updated_at = ?
+      WHERE pdf_url = ?
+    `,
+      [path.resolve(localPath), bytes, Date.now(), pdfUrl],
+    );
+  }
+
+  /**
+   * Record a failed download (keeps an earlier successful download)
+   */
+  markFailed(pdfUrl: string): void {
+    this.db.run(
+      `
+      UPDATE documents
+      SET status = 3, updated_at = ?
+      WHERE pdf_url = ? AND status != 2
+    `,
+      [Date.now(), pdfUrl],
+    );
+  }
+
+  /**
+   * Convert database row to CatalogDocument
+   */
+  private rowToDocument(row: any): CatalogDocument {
+    const terms = this.db
+      .query(
+        `
+      SELECT search_term FROM document_terms
+      WHERE pdf_url = ?
+      ORDER BY first_seen_at
+    `,
+      )
+      .all(row.pdf_url) as any[];
+
+    return {
+      pdfUrl: row.pdf_url,
+      pdfName: row.pdf_name,
+      fileSize: row.file_size,
+      status: row.status as CatalogStatus,
+      localPath: row.local_path,
+      bytes: row.bytes,
+      searchTerms: terms.map((term) => term.search_term),
+      firstSeenAt: row.first_seen_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    if (this.isClosed) {
+      return;
+    }
+    this.db.close();
+    this.isClosed = true;
+  }
+}
@@ -0,0 +1,244 @@
+import { TaskQueue } from "./task-queue.js";
+import { classifyError } from "./retry-policy.js";
+import type { CircuitBreakerState, ClaimPermission } from "./types.js";
+
+/** Failures older than this do not count towards opening */
+const BREAKER_WINDOW_MS = 60000;
+
+/** Open at or above this rate of transient failures in the window */
+const BREAKER_FAILURE_RATE = 0.5;
+
+/** Too few outcomes in the window to judge */
+const BREAKER_MIN_OUTCOMES = 5;
+
+/** Pause before probing after opening or a failed probe */
+const BREAKER_COOLDOWN_MS = 60000;
+
+/** Another worker may probe if the probe has not reported by then */
+const PROBE_TIMEOUT_MS = 10 * 60 * 1000;
+
+const CLOSED_STATE: CircuitBreakerState = {
+  state: "closed",
+  openedAt: null,
+  nextProbeAt: null,
+  probeWorkerId: null,
+  closedAt: null,
+  trips: 0,
+};
+
+/**
+ * Circuit Breaker
+ *
+ * Shared by all workers of a search through the queue metadata, so a
+ * blocking or failing portal pauses every worker instead of each one
+ * failing its way through the queue:
+ * - closed: workers claim normally; each transient failure re-checks the
+ *   failure rate of the last minute and opens the breaker above the threshold
+ * - open: no worker claims; tasks that fail while open go back to pending
+ * - half-open: after the cooldown one worker downloads a single task as a
+ *   probe; success closes the breaker, failure opens it for another cooldown
+ *
+ * Permanent errors (404, invalid PDF) say nothing about the portal and do not
+ * count towards opening.
+ */
+export class CircuitBreaker {
+  private queue: TaskQueue;
+  private now: () => number;
+
+  /**
+   * `now` is the clock for cooldowns and probe timeouts (tests pass their
+   * own)
+   */
+  constructor(queue: TaskQueue, now: () => number = Date.now) {
+    this.queue = queue;
+    this.now = now;
+  }
+
+  /**
+   * Close the breaker (start of a run)
+   */
+  static reset(queue: TaskQueue): void {
+    queue.setMetadata("circuit_breaker", JSON.stringify(CLOSED_STATE));
+  }
+
+  /**
+   * Read the current state
+   */
+  getState(): CircuitBreakerState {
+    return parseState(this.queue.getMetadata("circuit_breaker"));
+  }
+
+  /**
+   * Whether claiming is paused (open or probing)
+   */
+  isOpen(): boolean {
+    return this.getState().state !== "closed";
+  }
+
+  /**
+   * Check whether a worker may claim a task, starting a probe when the
+   * cooldown is over
+   */
+  checkClaim(workerId: string): ClaimPermission {
+    if (!this.isOpen()) {
+      return "claim";
+    }
+
+    let permission: ClaimPermission = "wait";
+    this.update((current) => {
+      const now = this.now();
+      if (current.state === "closed") {
+        permission = "claim";
+        return null;
+      }
+      if (current.nextProbeAt !== null && now < current.nextProbeAt) {
+        return null;
+      }
+
+      permission = "probe";
+      return {
+        ...current,
+        state: "half-open",
+        probeWorkerId: workerId,
+        nextProbeAt: now + PROBE_TIMEOUT_MS,
+      };
+    });
+
+    return permission;
+  }
+
+  /**
+   * Re-check the recent failure rate after a failed download
+   * Returns true if this call opened the breaker
+   */
+  recordFailure(): boolean {
+    const state = this.getState();
+    if (state.state !== "closed") {
+      return false;
+    }
+
+    // Failures from before the last close were already dealt with
+    const now = this.now();
+    const since = Math.max(now - BREAKER_WINDOW_MS, state.closedAt ?? 0);
+    const failures = this.queue
+      .getFailureErrorsSince(since)
+      .filter((error) => classifyError(error) === "transient").length;
+    const completed = this.queue.getRecentOutcomes(now - since).completed;
+    const total = completed + failures;
+
+    if (
+      total < BREAKER_MIN_OUTCOMES ||
+      failures / total < BREAKER_FAILURE_RATE
+    ) {
+      return false;
+    }
+
+    let opened = false;
+    this.update((current) => {
+      if (current.state !== "closed") {
+        return null;
+      }
+
+      opened = true;
+      return {
+        ...current,
+        state: "open",
+        openedAt: now,
+        nextProbeAt: now + BREAKER_COOLDOWN_MS,
+        probeWorkerId: null,
+        trips: current.trips + 1,
+      };
+    });
+
+    return opened;
+  }
+
+  /**
+   * Report the outcome of a probe download
+   * On success the breaker closes and tasks that failed transiently while it
+   * was open go back to pending; returns the number of tasks requeued
+   */
+  recordProbe(workerId: string, succeeded: boolean): number {
+    let openedAt: number | null = null;
+
+    this.update((current) => {
+      // Probe timed out and another worker took over
+      if (current.state !== "half-open" || current.probeWorkerId !== workerId) {
+        return null;
+      }
+
+      const now = this.now();
+      if (!succeeded) {
+        return {
+          ...current,
+          state: "open",
+          nextProbeAt: now + BREAKER_COOLDOWN_MS,
+          probeWorkerId: null,
+        };
+      }
+
+      openedAt = current.openedAt;
+      return {
+        ...current,
+        state: "closed",
+        openedAt: null,
+        nextProbeAt: null,
+        probeWorkerId: null,
+        closedAt: now,
+      };
+    });
+
+    // Permanent failures (404, not a PDF) would only fail again
+    return openedAt !== null
+      ? this.queue.requeueFailedSince(
+          openedAt,
+          (error) => classifyError(error) === "transient",
+        )
+      : 0;
+  }
+
+  /**
+   * Give up a probe without a result (no task to probe with)
+   */
+  abandonProbe(workerId: string): void {
+    this.update((current) => {
+      if (current.state !== "half-open" || current.probeWorkerId !== workerId) {
+        return null;
+      }
+
+      return {
+        ...current,
+        state: "open",
+        nextProbeAt: this.now(),
+        probeWorkerId: null,
+      };
+    });
+  }
+
+  /**
+   * Atomically update the stored state (return null to keep it)
+   */
+  private update(
+    change: (current: CircuitBreakerState) => CircuitBreakerState | null,
+  ): void {
+    this.queue.updateMetadata("circuit_breaker", (value) => {
+      const next = change(parseState(value));
+      return next ? JSON.stringify(next) : null;
+    });
+  }
+}
+
+/**
+ * Parse a stored state (missing or unreadable means closed)
+ */
+function parseState(value: string | null): CircuitBreakerState {
+  if (!value) {
+    return CLOSED_STATE;
+  }
+
+  try {
+    return { ...CLOSED_STATE, ...JSON.parse(value) };
+  } catch {
+    return CLOSED_STATE;
+  }
+}
@@ -1,9 +1,14 @@
 import path from "path";
 import fs from "fs";
+import os from "os";
 import chalk from "chalk";
 import { PromptType } from "../types/enums";
 import { JUSTICE_GOV_SEARCH_URL } from "../types/constants";
 import { TaskQueue } from "./task-queue.js";
+import { DocumentCatalog } from "./catalog.js";
+import { DEFAULT_RATE_LIMITS, RateLimiter } from "./rate-limiter.js";
+import { CircuitBreaker } from "./circuit-breaker.js";
+import { DEFAULT_RETRY_POLICY, saveRetryPolicy } from "./retry-policy.js";
 import { WorkerPool } from "./worker-pool.js";
 import {
   closeBrowser,
@@ -11,12 +16,28 @@ import {
 } from "../browserless/browser-client.js";
 import { prompt } from "../utils/prompt";
 import { logger } from "../utils/logger";
+import {
+  getCacheDir,
+  getFilesDir,
+  getJsonDir,
+  getPlanPath,
+} from "../utils/layout.js";
+import { MEDIA_LABELS, MEDIA_TYPES } from "../utils/media.js";
+import {
+  DEFAULT_NAME_TEMPLATE,
+  renderFileName,
+  type NameFields,
+} from "../utils/naming.js";
+import { findExistingDownload, removeStalePartFiles } from "../utils/helpers";
 import type {
   CoordinatorOptions,
   CoordinatorResult,
+  DownloadPlan,
+  DownloadPlanEntry,
   PdfTask,
   JusticeGovJson,
   QueueProgress,
+  WorkerPoolResult,
 } from "./types.js";
 import {
   initProgressBars,
@@ -24,9 +45,16 @@ import {
   addPdfProgressTask,
   updateJsonProgress,
   updatePdfProgress,
+  updateWorkerProgress,
   closeProgressBars,
 } from "../utils/progress.js";
 
+/** Attempts per search results page before it is marked failed */
+const PAGE_FETCH_ATTEMPTS = 3;
+
+/** Upper bound for parallel search results page fetches */
+const MAX_PAGE_CONCURRENCY = 5;
+
 /**
  * Coordinator (Producer)
  *
@@ -34,20 +62,27 @@ import {
  * 1. Checks for existing queue (resume detection)
  * 2. Discovers total pages from initial JSON fetch
  * 3. Starts workers
- * 4. Fetches JSON metadata and populates queue (streaming)
+ * 4. Fetches JSON metadata (N pages in parallel) and populates queue in page order
  * 5. Waits for workers to complete
  * 6. Shows summary and cleanup prompt
+ *
+ * With `dryRun`, stops after fetching metadata and reports a download plan.
  */
 export class Coordinator {
   private searchTerm: string;
   private downloadDir: string;
   private options: CoordinatorOptions;
   private queue: TaskQueue;
+  private catalog: DocumentCatalog;
+  private catalogHits: number;
+  private limiter: RateLimiter;
   private startTime: number;
   private totalPages: number;
   private totalPdfs: number;
   private progressTimer: ReturnType<typeof setInterval> | null;
+  private poolResult: WorkerPoolResult | null;
   private queueDeleted: boolean;
+  private planDir: string | null; // temporary queue directory of a dry run
 
   constructor(
     searchTerm: string,
@@ -59,15 +94,32 @@ export class Coordinator {
     this.options = {
       startPage: 1,
       workers: 5,
+      pageConcurrency: 2,
       fresh: false,
       verbose: false,
+      dryRun: false,
+      isolation: "process",
       ...options,
     };
-    this.queue = new TaskQueue(downloadDir, searchTerm);
+    // A dry run plans in a throwaway queue and only reads the catalog, so
+    // the real queue (and the next run's resume check) is left untouched
+    this.planDir = this.options.dryRun
+      ? fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-plan-"))
+      : null;
+    this.queue = new TaskQueue(this.planDir ?? downloadDir, searchTerm);
+    this.catalog = new DocumentCatalog(downloadDir, {
+      readonly: this.options.dryRun,
+    });
+    this.catalogHits = 0;
+    this.limiter = new RateLimiter(this.queue, {
+      ...DEFAULT_RATE_LIMITS,
+      ...options.rateLimits,
+    });
     this.startTime = Date.now();
     this.totalPages = 0;
     this.totalPdfs = 0;
     this.progressTimer = null;
+    this.poolResult = null;
     this.queueDeleted = false;
   }
 
@@ -76,6 +128,12 @@ export class Coordinator {
    */
   async run(): Promise<CoordinatorResult> {
     try {
+      // Dry run: fetch metadata and report a plan instead of downloading,
+      // before anything is written to the queue or the catalog
+      if (this.options.dryRun) {
+        return await this.runDryRun();
+      }
+
       // Phase 1: Check for resume
       const resumeAction = await this.checkResume();
 
@@ -85,14 +143,39 @@ export class Coordinator {
           totalPdfs: 0,
           completedPdfs: 0,
           failedPdfs: 0,
+          failedPages: 0,
           duration: 0,
           workersUsed: 0,
+          workerRestarts: 0,
+          mediaCounts: {},
         };
       }
 
+      // Shared limits and retry policy (workers read them from the queue)
+      RateLimiter.saveLimits(this.queue, this.limiter.getLimits());
+      CircuitBreaker.reset(this.queue);
+      saveRetryPolicy(
+        this.queue,
+        this.options.retryPolicy || DEFAULT_RETRY_POLICY,
+      );
+
       // Phase 2: Discover totals
       await this.discoverTotals();
 
+      // Nothing downloads yet, so .part files are from an interrupted run;
+      // keep the ones the queue can resume
+      const staleParts = removeStalePartFiles(
+        getFilesDir(this.downloadDir, this.searchTerm),
+        this.queue.getPartialNames(),
+      );
+      if (staleParts > 0) {
+        logger.info(
+          chalk.gray(
+            `Removed ${staleParts} incomplete downloads (.part files)`,
+          ),
+        );
+      }
+
       // Phase 3: Start workers
       const workerPool = new WorkerPool(
         this.queue,
@@ -101,12 +184,19 @@ export class Coordinator {
         this.downloadDir,
         {
           verbose: this.options.verbose,
-          prefixMode: this.options.prefixMode,
-          customPrefix: this.options.customPrefix,
+          nameTemplate: this.options.nameTemplate,
+          isolation: this.options.isolation,
+          autoScale: this.options.autoScale,
           onProgress: (progress) => {
             const total = this.totalPdfs || progress.total;
             const completed = progress.completed + progress.failed;
-            updatePdfProgress("PDF Downloads", completed, total);
+            updatePdfProgress("Downloads", completed, total);
+          },
+          onWorkerEvent: (event, workers) => {
+            const state = workers.find((w) => w.workerId === event.workerId);
+            if (state) {
+              updateWorkerProgress(state);
+            }
           },
         },
       );
@@ -125,7 +215,7 @@ export class Coordinator {
 
       // Phase 6: Signal completion and wait for workers
       this.queue.setMetadata("json_fetch_complete", "true");
-      await workerPool.waitForCompletion();
+      this.poolResult = await workerPool.waitForCompletion();
       this.stopPdfProgressPolling();
       this.finalizePdfProgress();
 
@@ -145,6 +235,10 @@ export class Coordinator {
       if (!this.queueDeleted) {
         this.queue.close();
       }
+      if (this.planDir) {
+        fs.rmSync(this.planDir, { recursive: true, force: true });
+      }
+      this.catalog.close();
       closeProgressBars();
     }
   }
@@ -271,37 +365,18 @@ export class Coordinator {
     }
 
     // Fetch the start page
-    const jsonDir = path.join(
-      this.downloadDir,
-      "cache",
-      this.searchTerm,
-      "json",
-    );
+    const data = await this.fetchPage(startPage);
 
-    const { jsonData } = await fetchPageContent(
-      `${JUSTICE_GOV_SEARCH_URL}?keys=${encodeURIComponent(
-        this.searchTerm,
-      )}&page=${startPage}`,
-      {
-        saveJson: true,
-        jsonOutputDir: jsonDir,
-      },
-    );
-
-    if (!jsonData) {
+    if (!data) {
       throw new Error(`Failed to fetch page ${startPage}`);
     }
 
-    const data = jsonData as JusticeGovJson;
-
     if (isSinglePage) {
-      // Single page: only count PDFs on this page
-      const pdfs = this.extractPdfsFromJson(data, startPage);
+      // Single page: insert and count PDFs from this page only
+      const pdfs = this.enqueuePage(data, startPage);
       this.totalPdfs = pdfs.length;
       this.totalPages = 1;
-
-      // Insert PDFs from this page only
-      this.queue.insertPdfs(pdfs);
+      this.queue.setMetadata("total_pdfs", String(data.hits.total?.value || 0));
 
       // Verify insertion
       const progress = this.queue.getProgress();
@@ -326,9 +401,8 @@ export class Coordinator {
       this.queue.setMetadata("total_pdfs", String(totalPdfsOverall));
       this.queue.setMetadata("start_time", String(Date.now()));
 
-      // Insert PDFs from page 1 into queue
-      const pdfs = this.extractPdfsFromJson(data, startPage);
-      this.queue.insertPdfs(pdfs);
+      // Insert PDFs from the start page into queue
+      this.enqueuePage(data, startPage);
 
       logger.info(
         chalk.green(
@@ -344,7 +418,7 @@ export class Coordinator {
   private initializeProgressBars(): void {
     initProgressBars();
     addJsonProgressTask("JSON Metadata", this.totalPages);
-    addPdfProgressTask("PDF Downloads", this.totalPdfs);
+    addPdfProgressTask("Downloads", this.totalPdfs);
   }
 
   private async cleanupAfterPromptExit(): Promise<void> {
@@ -359,10 +433,29 @@ export class Coordinator {
     }
 
     const update = () => {
+      // Return tasks of crashed or hung workers to pending
+      try {
+        const reclaimed = this.queue.reclaimExpiredLeases();
+        if (reclaimed > 0) {
+          logger.warn(
+            chalk.yellow(
+              `Reclaimed ${reclaimed} PDFs from unresponsive workers`,
+            ),
+          );
+        }
+      } catch (error: any) {
+        logger.debug(chalk.gray(`Lease reclaim skipped: ${error.message}`));
+      }
+
       const progress = this.queue.getProgress();
       const total = this.totalPdfs || progress.total;
       const completed = progress.completed + progress.failed;
-      updatePdfProgress("PDF Downloads", completed, total);
+      updatePdfProgress(
+        "Downloads",
+        completed,
+        total,
+        this.queue.getMediaTypeCounts(),
+      );
     };
 
     update();
@@ -389,11 +482,20 @@ export class Coordinator {
     }
 
     this.totalPdfs = total;
-    updatePdfProgress("PDF Downloads", total, total);
+    updatePdfProgress(
+      "Downloads",
+      total,
+      total,
+      this.queue.getMediaTypeCounts(),
+    );
   }
 
   /**
    * Producer loop: fetch JSONs and populate queue
+   *
+   * Pages are fetched by up to `pageConcurrency` lanes in parallel (each
+   * fetch uses its own browser context), but their PDFs are inserted into
+   * the queue in page order so workers still claim tasks page by page.
    */
   private async producerLoop(): Promise<void> {
     logger.info(chalk.blue("Fetching JSON metadata...\n"));
@@ -402,16 +504,11 @@ export class Coordinator {
     const endPage = this.options.endPage
       ? this.options.endPage
       : startPage + this.totalPages - 1;
-    const jsonDir = path.join(
-      this.downloadDir,
-      "cache",
-      this.searchTerm,
-      "json",
-    );
     let processedPages = 0;
 
+    // Skip pages already in queue (resume)
+    const pages: number[] = [];
     for (let page = startPage; page <= endPage; page++) {
-      // Skip if page already in queue (resume)
       if (this.queue.hasPage(page)) {
         if (this.options.verbose) {
           logger.info(chalk.gray(`  Page ${page}: Already in queue`));
@@ -420,9 +517,64 @@ export class Coordinator {
         updateJsonProgress("JSON Metadata", processedPages, this.totalPages);
         continue;
       }
+      pages.push(page);
+    }
+
+    const concurrency = Math.max(
+      1,
+      Math.min(MAX_PAGE_CONCURRENCY, this.options.pageConcurrency!),
+    );
+
+    // Throttled by the shared rate limiter in fetchPage; failed pages are
+    // recorded there and retried on resume
+    await fetchInOrder(
+      pages,
+      concurrency,
+      (page) => this.fetchPage(page),
+      (page, data) => {
+        if (data) {
+          const pdfs = this.enqueuePage(data, page);
+
+          if (this.options.verbose) {
+            logger.info(
+              chalk.gray(`  Page ${page}: ${pdfs.length} PDFs added to queue`),
+            );
+          }
+        }
+
+        // Update progress
+        processedPages++;
+        updateJsonProgress("JSON Metadata", processedPages, this.totalPages);
+      },
+    );
+
+    const failedPages = this.queue.getFailedPages();
+    if (failedPages.length > 0) {
+      logger.warn(
+        chalk.yellow(
+          `\n⚠ ${failedPages.length} pages failed to fetch (${failedPages
+            .map((page) => page.pageNumber)
+            .join(", ")}). Resume to retry them.\n`,
+        ),
+      );
+    } else {
+      logger.info(chalk.green("\n✓ All JSON metadata fetched\n"));
+    }
+  }
+
+  /**
+   * Fetch a search results page, retrying with backoff
+   * Returns null if every attempt failed (the page is marked failed)
+   */
+  private async fetchPage(page: number): Promise<JusticeGovJson | null> {
+    const jsonDir = getJsonDir(this.downloadDir, this.searchTerm);
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= PAGE_FETCH_ATTEMPTS; attempt++) {
+      await this.limiter.acquireRequest();
+      this.queue.markPageFetching(page);
 
       try {
-        // Fetch JSON
         const { jsonData } = await fetchPageContent(
           `${JUSTICE_GOV_SEARCH_URL}?keys=${encodeURIComponent(
             this.searchTerm,
@@ -433,36 +585,65 @@ export class Coordinator {
           },
         );
 
-        if (!jsonData) {
-          logger.error(chalk.red(`  Page ${page}: Failed to fetch JSON`));
-          continue;
+        if (jsonData?.hits) {
+          return jsonData as JusticeGovJson;
         }
 
-        // Extract and insert PDFs
-        const data = jsonData as JusticeGovJson;
-        const pdfs = this.extractPdfsFromJson(data, page);
-        this.queue.insertPdfs(pdfs);
-
-        if (this.options.verbose) {
-          logger.info(
-            chalk.gray(`  Page ${page}: ${pdfs.length} PDFs added to queue`),
-          );
-        }
+        lastError = jsonData
+          ? "Page did not contain search results"
+          : "No JSON data extracted from page";
+      } catch (error: any) {
+        lastError = error.message || "Unknown error";
+      }
 
-        // Update progress
-        processedPages++;
-        updateJsonProgress("JSON Metadata", processedPages, this.totalPages);
+      logger.debug(
+        chalk.yellow(
+          `  Page ${page}: Attempt ${attempt}/${PAGE_FETCH_ATTEMPTS} failed - ${lastError}`,
+        ),
+      );
 
-        // Rate limiting
-        if (page < endPage) {
-          await sleep(1000);
-        }
-      } catch (error: any) {
-        logger.error(chalk.red(`  Page ${page}: Error - ${error.message}`));
+      if (attempt < PAGE_FETCH_ATTEMPTS) {
+        // Backoff: 2s, 4s
+        await sleep(2000 * attempt);
       }
     }
 
-    logger.info(chalk.green("\n✓ All JSON metadata fetched\n"));
+    this.queue.markPageFailed(page, lastError);
+    logger.error(
+      chalk.red(`  Page ${page}: Failed to fetch JSON - ${lastError}`),
+    );
+    return null;
+  }
+
+  /**
+   * Insert PDFs of a fetched page into the queue and mark the page fetched
+   * Documents the catalog already has on disk (from any search term) are
+   * queued as completed instead of being downloaded again
+   */
+  private enqueuePage(data: JusticeGovJson, pageNumber: number): PdfTask[] {
+    const pdfs = this.extractPdfsFromJson(data, pageNumber);
+    if (!this.options.dryRun) {
+      this.catalog.recordDocuments(pdfs, this.searchTerm);
+    }
+
+    const downloadedIds = new Set(
+      pdfs
+        .filter((pdf) => this.catalog.findDownloaded(pdf))
+        .map((pdf) => pdf.id),
+    );
+    this.catalogHits += downloadedIds.size;
+
+    if (downloadedIds.size > 0 && this.options.verbose) {
+      logger.info(
+        chalk.gray(
+          `  Page ${pageNumber}: ${downloadedIds.size} PDFs already downloaded (catalog)`,
+        ),
+      );
+    }
+
+    this.queue.insertPdfs(pdfs, downloadedIds);
+    this.queue.markPageFetched(pageNumber, pdfs.length);
+    return pdfs;
   }
 
   /**
@@ -476,7 +657,7 @@ export class Coordinator {
     const hits = data.hits?.hits || [];
     const timestamp = Date.now();
 
-    for (const hit of hits) {
+    for (const [index, hit] of hits.entries()) {
       const source = hit._source;
       if (source?.ORIGIN_FILE_NAME && source?.ORIGIN_FILE_URI) {
         pdfs.push({
@@ -486,6 +667,8 @@ export class Coordinator {
           pdfName: source.ORIGIN_FILE_NAME,
           pdfUrl: source.ORIGIN_FILE_URI,
           fileSize: source.fileSize || 0,
+          hitIndex: index + 1,
+          source,
         });
       }
     }
@@ -493,12 +676,172 @@ export class Coordinator {
     return pdfs;
   }
 
+  /**
+   * Dry run: fetch all metadata, then report what a download would do
+   * without spawning workers or writing to the files directory
+   */
+  private async runDryRun(): Promise<CoordinatorResult> {
+    await this.discoverTotals();
+
+    initProgressBars();
+    addJsonProgressTask("JSON Metadata", this.totalPages);
+    await this.producerLoop();
+    closeProgressBars();
+
+    const plan = this.buildPlan();
+    const planPath = getPlanPath(this.downloadDir, this.searchTerm);
+    fs.mkdirSync(path.dirname(planPath), { recursive: true });
+    fs.writeFileSync(planPath, JSON.stringify(plan, null, 2));
+
+    this.showPlan(plan);
+    logger.info(chalk.gray(`Plan saved to: ${planPath}\n`));
+
+    return {
+      totalPages: this.totalPages,
+      totalPdfs: plan.totalPdfs,
+      completedPdfs: 0,
+      failedPdfs: 0,
+      failedPages: plan.failedPages.length,
+      duration: Date.now() - this.startTime,
+      workersUsed: 0,
+      workerRestarts: 0,
+      mediaCounts: {},
+      plan,
+    };
+  }
+
+  /**
+   * Compare queued PDFs against the files directory
+   */
+  private buildPlan(): DownloadPlan {
+    const startPage = this.options.startPage || 1;
+    const endPage = this.options.endPage ?? startPage + this.totalPages - 1;
+    const isInRange = (page: number) => page >= startPage && page <= endPage;
+    const pdfOutputDir = getFilesDir(this.downloadDir, this.searchTerm);
+    const hasOutputDir = fs.existsSync(pdfOutputDir);
+    const nameTemplate = this.options.nameTemplate ?? DEFAULT_NAME_TEMPLATE;
+
+    const files: DownloadPlanEntry[] = this.queue
+      .getTasks()
+      .filter((task) => isInRange(task.pageNumber))
+      .map((task) => {
+        const nameFields: NameFields = {
+          fileName: task.pdfName,
+          pageNumber: task.pageNumber,
+          searchTerm: this.searchTerm,
+          index: task.hitIndex,
+          fileSize: task.fileSize,
+          source: task.source,
+        };
+        const targetName = renderFileName(nameTemplate, nameFields);
+        const cataloged = this.catalog.findDownloaded(task);
+
+        // Already downloaded for another search term
+        if (cataloged) {
+          return {
+            pageNumber: task.pageNumber,
+            pdfName: task.pdfName,
+            pdfUrl: task.pdfUrl,
+            fileSize: task.fileSize,
+            action: "present" as const,
+            targetName,
+            existingName: cataloged.localPath,
+          };
+        }
+
+        const existing = hasOutputDir
+          ? findExistingDownload(this.downloadDir, nameTemplate, nameFields)
+          : null;
+
+        return {
+          pageNumber: task.pageNumber,
+          pdfName: task.pdfName,
+          pdfUrl: task.pdfUrl,
+          fileSize: task.fileSize,
+          action: !existing
+            ? "download"
+            : existing.needsRename
+              ? "rename"
+              : "present",
+          targetName: existing?.targetName ?? targetName,
+          existingName: existing
+            ? path.relative(pdfOutputDir, existing.filePath)
+            : null,
+        };
+      });
+
+    const newFiles = files.filter((file) => file.action === "download");
+
+    return {
+      searchTerm: this.searchTerm,
+      createdAt: new Date().toISOString(),
+      startPage,
+      endPage,
+      totalHits: parseInt(this.queue.getMetadata("total_pdfs") || "0", 10),
+      totalPages: this.totalPages,
+      failedPages: this.queue
+        .getFailedPages()
+        .map((page) => page.pageNumber)
+        .filter(isInRange),
+      totalPdfs: files.length,
+      presentPdfs: files.filter((file) => file.action === "present").length,
+      renamePdfs: files.filter((file) => file.action === "rename").length,
+      newPdfs: newFiles.length,
+      totalBytes: files.reduce((sum, file) => sum + file.fileSize, 0),
+      downloadBytes: newFiles.reduce((sum, file) => sum + file.fileSize, 0),
+      files,
+    };
+  }
+
+  /**
+   * Show dry run plan
+   */
+  private showPlan(plan: DownloadPlan): void {
+    const line = (text: string) =>
+      logger.info(chalk.white(`║ ${text.padEnd(48)} ║`));
+
+    logger.info(
+      chalk.white("\n╔══════════════════════════════════════════════════╗"),
+    );
+    logger.info(
+      chalk.white("║                  DRY RUN PLAN                    ║"),
+    );
+    logger.info(
+      chalk.white("╠══════════════════════════════════════════════════╣"),
+    );
+    line("JSON Metadata");
+    line(`  Total Hits: ${plan.totalHits}`);
+    line(`  Pages: ${plan.startPage}-${plan.endPage} (${plan.totalPages})`);
+    if (plan.failedPages.length > 0) {
+      logger.info(
+        chalk.red(
+          `║ ${`  ✗ Failed Pages: ${plan.failedPages.length}`.padEnd(48)} ║`,
+        ),
+      );
+    }
+    line("");
+    line("Downloads");
+    line(`  Total Files: ${plan.totalPdfs}`);
+    line(`  ✓ Already present: ${plan.presentPdfs}`);
+    line(`  ↻ Needs rename: ${plan.renamePdfs}`);
+    line(`  ↓ To download: ${plan.newPdfs}`);
+    line("");
+    line("Size");
+    line(`  Total: ${this.formatBytes(plan.totalBytes)}`);
+    line(`  To download: ${this.formatBytes(plan.downloadBytes)}`);
+    logger.info(
+      chalk.white("╚══════════════════════════════════════════════════╝"),
+    );
+    logger.info("");
+  }
+
   /**
    * Show final summary
    */
   private async showSummary(): Promise<CoordinatorResult> {
     const duration = Date.now() - this.startTime;
     const progress = this.queue.getProgress();
+    const pageProgress = this.queue.getPageProgress();
 
     logger.info(
       chalk.white("\n╔══════════════════════════════════════════════════╗"),
@@ -519,34 +862,74 @@ export class Coordinator {
     );
     logger.info(
       chalk.white(
-        `║   ✓ Downloaded: ${this.totalPages.toString().padEnd(32)} ║`,
+        `║   ✓ Downloaded: ${pageProgress.fetched.toString().padEnd(32)} ║`,
       ),
     );
-    logger.info(chalk.white(`║   ✗ Failed: ${(0).toString().padEnd(36)} ║`));
+    logger.info(
+      pageProgress.failed > 0
+        ? chalk.red(
+            `║   ✗ Failed: ${pageProgress.failed.toString().padEnd(36)} ║`,
+          )
+        : chalk.white(`║   ✗ Failed: ${(0).toString().padEnd(36)} ║`),
+    );
     logger.info(
       chalk.white("║                                                  ║"),
     );
     logger.info(
-      chalk.white("║ PDF Downloads                                    ║"),
+      chalk.white("║ Downloads                                        ║"),
     );
     logger.info(
-      chalk.white(`║   Total PDFs: ${this.totalPdfs.toString().padEnd(34)} ║`),
+      chalk.white(`║   Total Files: ${this.totalPdfs.toString().padEnd(33)} ║`),
     );
     logger.info(
       chalk.white(
         `║   ✓ Downloaded: ${progress.completed.toString().padEnd(32)} ║`,
       ),
     );
+    const mediaCounts = this.queue.getMediaTypeCounts();
+    for (const type of MEDIA_TYPES) {
+      const count = mediaCounts[type];
+      if (count) {
+        const label = `${MEDIA_LABELS[type]}:`;
+        logger.info(
+          chalk.white(
+            `║     ${label.padEnd(13)} ${count.toString().padEnd(30)} ║`,
+          ),
+        );
+      }
+    }
+    if (this.catalogHits > 0) {
+      logger.info(
+        chalk.white(
+          `║   ↷ From catalog: ${this.catalogHits.toString().padEnd(30)} ║`,
+        ),
+      );
+    }
+    if (progress.skippedExisting > 0) {
+      logger.info(
+        chalk.white(
+          `║   ↷ Already on disk: ${progress.skippedExisting.toString().padEnd(27)} ║`,
+        ),
+      );
+    }
     logger.info(
       progress.failed > 0
         ? chalk.red(`║   ✗ Failed: ${progress.failed.toString().padEnd(36)} ║`)
         : chalk.white(`║   ✗ Failed: ${(0).toString().padEnd(36)} ║`),
     );
-    logger.info(
-      chalk.white(
-        `║   Workers Used: ${this.options.workers!.toString().padEnd(32)} ║`,
-      ),
-    );
+    const workersUsed = this.poolResult?.totalWorkers ?? this.options.workers!;
+    const workersLabel = this.options.autoScale
+      ? `auto (${workersUsed} started)`
+      : workersUsed.toString();
+    logger.info(chalk.white(`║   Workers Used: ${workersLabel.padEnd(32)} ║`));
+    const workerRestarts = this.poolResult?.restarts ?? 0;
+    if (workerRestarts > 0) {
+      logger.info(
+        chalk.yellow(
+          `║   ↻ Worker Restarts: ${workerRestarts.toString().padEnd(27)} ║`,
+        ),
+      );
+    }
     logger.info(
       chalk.white("║                                                  ║"),
     );
@@ -573,8 +956,11 @@ export class Coordinator {
       totalPdfs: this.totalPdfs,
       completedPdfs: progress.completed,
       failedPdfs: progress.failed,
+      failedPages: pageProgress.failed,
       duration,
-      workersUsed: this.options.workers!,
+      workersUsed,
+      workerRestarts,
+      mediaCounts,
     };
   }
 
@@ -582,8 +968,8 @@ export class Coordinator {
    * Prompt for cleanup
    */
   private async promptForCleanup(result: CoordinatorResult): Promise<void> {
-    const cacheDir = path.join(this.downloadDir, "cache", this.searchTerm);
-    const allSuccessful = result.failedPdfs === 0;
+    const cacheDir = getCacheDir(this.downloadDir, this.searchTerm);
+    const allSuccessful = result.failedPdfs === 0 && result.failedPages === 0;
 
     if (this.options.cache !== undefined) {
       if (this.options.cache) {
@@ -631,16 +1017,70 @@ export class Coordinator {
     }
   }
 
+  /**
+   * Format byte counts for display
+   */
+  private formatBytes(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let value = bytes;
+    let unit = 0;
+
+    while (value >= 1024 && unit < units.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+  }
+
   /**
    * Format speed for display
    */
   private formatSpeed(duration: number, completed: number): string {
     const seconds = duration / 1000;
     const rate = completed / seconds;
-    return `${rate.toFixed(1)} PDFs/second`;
+    return `${rate.toFixed(1)} files/second`;
   }
 }
 
+/**
+ * Fetch items in up to `concurrency` parallel lanes, handing the results to
+ * `onResult` in the order of `items`: each one as soon as it and every item
+ * before it are done
+ */
+export async function fetchInOrder<T, R>(
+  items: T[],
+  concurrency: number,
+  fetch: (item: T) => Promise<R>,
+  onResult: (item: T, result: R) => void,
+): Promise<void> {
+  const results = new Map<number, R>();
+  let nextFetch = 0;
+  let nextResult = 0;
+
+  const flushReadyResults = () => {
+    while (nextResult < items.length && results.has(nextResult)) {
+      const result = results.get(nextResult)!;
+      results.delete(nextResult);
+      onResult(items[nextResult++]!, result);
+    }
+  };
+
+  const fetchLane = async () => {
+    while (nextFetch < items.length) {
+      const index = nextFetch++;
+      results.set(index, await fetch(items[index]!));
+      flushReadyResults();
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, () =>
+      fetchLane(),
+    ),
+  );
+}
+
 /**
  * Sleep utility
  */
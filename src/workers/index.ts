@@ -18,7 +18,22 @@
 // Main classes
 export { Coordinator } from "./coordinator.js";
 export { WorkerPool } from "./worker-pool.js";
-export { TaskQueue } from "./task-queue.js";
+export {
+  TaskQueue,
+  QUEUE_SCHEMA_VERSION,
+  TASK_LEASE_MS,
+  TASK_STATUS_NAMES,
+} from "./task-queue.js";
+export { DocumentCatalog } from "./catalog.js";
+export { DEFAULT_RATE_LIMITS, RateLimiter } from "./rate-limiter.js";
+export { CircuitBreaker } from "./circuit-breaker.js";
+export { AutoScaler, AUTO_MAX_WORKERS } from "./auto-scaler.js";
+export {
+  DEFAULT_RETRY_POLICY,
+  classifyError,
+  createRetryPolicy,
+  readRetryConfig,
+} from "./retry-policy.js";
 
 // Worker function
 export { runWorker } from "./worker.js";
@@ -27,12 +42,40 @@ export { runWorker } from "./worker.js";
 export type {
   PdfTask,
   PdfTaskRecord,
+  CompletedDownload,
   TaskStatus,
   QueueProgress,
+  PageStatus,
+  PageRecord,
+  PageProgress,
+  PageSummary,
+  FailedTaskFilter,
+  RateLimits,
+  RetryPolicy,
+  ErrorClass,
+  CircuitState,
+  CircuitBreakerState,
+  ClaimPermission,
+  RecentOutcomes,
+  ScalingDecision,
+  CatalogStatus,
+  CatalogDocument,
   CoordinatorOptions,
   CoordinatorResult,
+  PlanAction,
+  DownloadPlanEntry,
+  DownloadPlan,
   WorkerPoolOptions,
   WorkerPoolResult,
+  WorkerIsolation,
+  WorkerThreadStart,
+  WorkerThreadDone,
+  WorkerThreadEvent,
+  WorkerThreadMessage,
+  WorkerEvent,
+  WorkerEventSink,
+  WorkerActivity,
+  WorkerState,
   WorkerOptions,
   WorkerResult,
   MetadataKey,
@@ -0,0 +1,147 @@
+import { TaskQueue } from "./task-queue.js";
+import type { RateLimits } from "./types.js";
+
+/** How often to check for a free download slot */
+const SLOT_POLL_MS = 250;
+
+/**
+ * Limits of a run without --rate and --max-downloads, polite to the portal
+ * whatever the worker count (0 turns a limit off)
+ */
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  requestsPerSecond: 2,
+  maxConcurrentDownloads: 4,
+};
+
+function isDatabaseLocked(error: unknown): boolean {
+  return error instanceof Error && /database is locked/i.test(error.message);
+}
+
+/**
+ * Rate Limiter
+ *
+ * Global limits shared by the coordinator and every worker of a search,
+ * kept in the queue database so they hold across processes and threads:
+ * - a token bucket for requests per second (page fetches and downloads)
+ * - a cap on concurrent downloads
+ *
+ * The coordinator stores the limits in the queue metadata at the start of a
+ * run; workers read them from there.
+ */
+export class RateLimiter {
+  private queue: TaskQueue;
+  private limits: RateLimits;
+
+  constructor(queue: TaskQueue, limits?: RateLimits) {
+    this.queue = queue;
+    this.limits = limits || RateLimiter.loadLimits(queue);
+  }
+
+  /**
+   * Store limits in the queue metadata for workers to pick up
+   */
+  static saveLimits(queue: TaskQueue, limits: RateLimits): void {
+    queue.setMetadata("rate_limit_rps", String(limits.requestsPerSecond));
+    queue.setMetadata(
+      "max_concurrent_downloads",
+      String(limits.maxConcurrentDownloads),
+    );
+  }
+
+  /**
+   * Read limits from the queue metadata (missing means unlimited)
+   */
+  static loadLimits(queue: TaskQueue): RateLimits {
+    return {
+      requestsPerSecond:
+        parseFloat(queue.getMetadata("rate_limit_rps") || "0") || 0,
+      maxConcurrentDownloads:
+        parseInt(queue.getMetadata("max_concurrent_downloads") || "0", 10) || 0,
+    };
+  }
+
+  /**
+   * Get the active limits
+   */
+  getLimits(): RateLimits {
+    return this.limits;
+  }
+
+  /**
+   * Wait until a request may be sent
+   */
+  async acquireRequest(): Promise<void> {
+    const rate = this.limits.requestsPerSecond;
+    if (rate <= 0) {
+      return;
+    }
+
+    // Allow short bursts of up to one second worth of requests
+    const burst = Math.max(1, rate);
+
+    while (true) {
+      let waitMs: number;
+      try {
+        waitMs = this.queue.takeRateToken(rate, burst);
+      } catch (error) {
+        if (!isDatabaseLocked(error)) {
+          throw error;
+        }
+        waitMs = 100;
+      }
+
+      if (waitMs === 0) {
+        return;
+      }
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Wait until the worker holds a download slot
+   */
+  async acquireDownloadSlot(workerId: string): Promise<void> {
+    const max = this.limits.maxConcurrentDownloads;
+    if (max <= 0) {
+      return;
+    }
+
+    while (true) {
+      try {
+        if (this.queue.acquireDownloadSlot(workerId, max)) {
+          return;
+        }
+      } catch (error) {
+        if (!isDatabaseLocked(error)) {
+          throw error;
+        }
+      }
+      await sleep(SLOT_POLL_MS);
+    }
+  }
+
+  /**
+   * Keep the worker's download slot from expiring
+   */
+  renewDownloadSlot(workerId: string): void {
+    if (this.limits.maxConcurrentDownloads > 0) {
+      this.queue.renewDownloadSlot(workerId);
+    }
+  }
+
+  /**
+   * Give back the worker's download slot
+   */
+  releaseDownloadSlot(workerId: string): void {
+    if (this.limits.maxConcurrentDownloads > 0) {
+      this.queue.releaseDownloadSlot(workerId);
+    }
+  }
+}
+
+/**
+ * Sleep utility
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
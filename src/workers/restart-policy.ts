@@ -0,0 +1,33 @@
+/** Restart budget for workers that exit while work remains */
+export const MAX_RESTARTS_PER_WORKER = 3;
+export const MAX_TOTAL_RESTARTS = 10;
+
+/** Backoff before a restart, doubled per restart of the same worker */
+const RESTART_BACKOFF_MS = 2000;
+const MAX_RESTART_BACKOFF_MS = 30000;
+
+/**
+ * Whether a worker may be restarted (again)
+ * `workerRestarts` counts the restarts of this worker, `plannedRestarts`
+ * those of the whole pool, done and scheduled
+ */
+export function hasRestartBudget(
+  workerRestarts: number,
+  plannedRestarts: number,
+): boolean {
+  return (
+    workerRestarts < MAX_RESTARTS_PER_WORKER &&
+    plannedRestarts < MAX_TOTAL_RESTARTS
+  );
+}
+
+/**
+ * Delay before restarting a worker that was restarted `workerRestarts`
+ * times already: 2s, 4s, 8s... capped at 30s
+ */
+export function getRestartDelay(workerRestarts: number): number {
+  return Math.min(
+    RESTART_BACKOFF_MS * 2 ** workerRestarts,
+    MAX_RESTART_BACKOFF_MS,
+  );
+}
@@ -0,0 +1,144 @@
+import fs from "fs";
+import { TaskQueue } from "./task-queue.js";
+import type { ErrorClass, RetryPolicy } from "./types.js";
+
+/** Used for anything not set on the CLI or in the config file */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+};
+
+/** Client errors that are worth retrying (request timeout, rate limited) */
+const TRANSIENT_HTTP_STATUSES = [408, 429];
+
+/** Errors that will fail the same way on every attempt */
+const PERMANENT_ERROR_PATTERNS: RegExp[] = [
+  /\bempty\b/i,
+  /\b(invalid|not a) PDF\b/i,
+];
+
+/**
+ * Classify a download error
+ *
+ * Permanent: 4xx responses other than 408/429, empty bodies and invalid
+ * PDFs. Everything else (timeouts, 5xx, challenge loops, network errors) is
+ * transient and worth retrying.
+ */
+export function classifyError(message: string): ErrorClass {
+  const httpStatus = message.match(/\bHTTP (\d{3})\b/);
+  if (httpStatus) {
+    const status = parseInt(httpStatus[1]!, 10);
+    return status >= 400 &&
+      status < 500 &&
+      !TRANSIENT_HTTP_STATUSES.includes(status)
+      ? "permanent"
+      : "transient";
+  }
+
+  return PERMANENT_ERROR_PATTERNS.some((pattern) => pattern.test(message))
+    ? "permanent"
+    : "transient";
+}
+
+/**
+ * Delay before the next attempt: base doubled per attempt, capped, then
+ * spread by ±jitter so workers don't retry in lockstep
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs,
+  );
+  const spread = delay * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + spread));
+}
+
+/**
+ * Merge overrides over the defaults and validate the result
+ */
+export function createRetryPolicy(
+  overrides: Partial<RetryPolicy> = {},
+): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new Error("Retry policy: maxAttempts must be an integer >= 1");
+  }
+  if (!Number.isFinite(policy.baseDelayMs) || policy.baseDelayMs < 0) {
+    throw new Error("Retry policy: baseDelayMs must be a number >= 0");
+  }
+  if (
+    !Number.isFinite(policy.maxDelayMs) ||
+    policy.maxDelayMs < policy.baseDelayMs
+  ) {
+    throw new Error("Retry policy: maxDelayMs must be >= baseDelayMs");
+  }
+  if (
+    !Number.isFinite(policy.jitter) ||
+    policy.jitter < 0 ||
+    policy.jitter > 1
+  ) {
+    throw new Error("Retry policy: jitter must be a number from 0-1");
+  }
+
+  return policy;
+}
+
+/**
+ * Read retry settings from a JSON config file
+ *
+ * Example: { "maxAttempts": 5, "baseDelayMs": 1000, "maxDelayMs": 20000, "jitter": 0.3 }
+ */
+export function readRetryConfig(filePath: string): Partial<RetryPolicy> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Cannot read retry config ${filePath}: ${error.message}`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Retry config ${filePath} must be a JSON object`);
+  }
+
+  const config: Partial<RetryPolicy> = {};
+  for (const key of Object.keys(
+    DEFAULT_RETRY_POLICY,
+  ) as (keyof RetryPolicy)[]) {
+    const value = (parsed as Record<string, unknown>)[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== "number") {
+      throw new Error(`Retry config ${filePath}: ${key} must be a number`);
+    }
+    config[key] = value;
+  }
+
+  return config;
+}
+
+/**
+ * Store the policy in the queue metadata for workers to pick up
+ */
+export function saveRetryPolicy(queue: TaskQueue, policy: RetryPolicy): void {
+  queue.setMetadata("retry_policy", JSON.stringify(policy));
+}
+
+/**
+ * Read the policy from the queue metadata (missing means defaults)
+ */
+export function loadRetryPolicy(queue: TaskQueue): RetryPolicy {
+  const stored = queue.getMetadata("retry_policy");
+  if (!stored) {
+    return DEFAULT_RETRY_POLICY;
+  }
+
+  try {
+    return createRetryPolicy(JSON.parse(stored));
+  } catch {
+    return DEFAULT_RETRY_POLICY;
+  }
+}
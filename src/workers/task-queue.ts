@@ -1,14 +1,202 @@
 import Database from "bun:sqlite";
-import path from "path";
 import fs from "fs";
+import { getCacheDir, getQueueDbPath } from "../utils/layout.js";
+import {
+  countMedia,
+  getMediaType,
+  type MediaCounts,
+  type MediaType,
+} from "../utils/media.js";
 import type {
+  CompletedDownload,
+  FailedTaskFilter,
+  PageProgress,
+  PageRecord,
+  PageStatus,
+  PageSummary,
+  PartialDownload,
   PdfTask,
   PdfTaskRecord,
   QueueProgress,
+  RecentOutcomes,
   TaskStatus,
   MetadataKey,
 } from "./types.js";
 
+/** How long a claimed task stays leased to a worker without a heartbeat */
+export const TASK_LEASE_MS = 60000;
+
+/** How often workers renew the lease of the task they are working on */
+export const LEASE_HEARTBEAT_MS = 15000;
+
+/** Human-readable task status names (as used by the CLI) */
+export const TASK_STATUS_NAMES: Record<TaskStatus, string> = {
+  0: "pending",
+  1: "in-progress",
+  2: "completed",
+  3: "failed",
+};
+
+/**
+ * A single queue schema change
+ */
+interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database) => void;
+}
+
+/**
+ * Ordered queue schema migrations
+ * Append new migrations to the end; never edit or reorder released ones.
+ * Steps are idempotent because queues created before versioning may already
+ * contain some of these changes.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "task leases",
+    up: (db) => {
+      addColumnIfMissing(db, "pdf_tasks", "lease_expires_at", "INTEGER");
+    },
+  },
+  {
+    version: 3,
+    description: "page fetch tracking",
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS pages (
+          search_term TEXT NOT NULL,
+          page_number INTEGER NOT NULL,
+          status INTEGER DEFAULT 0,
+          attempts INTEGER DEFAULT 0,
+          hit_count INTEGER,
+          error TEXT,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (search_term, page_number)
+        )
+      `);
+
+      // Pages that already have tasks were fetched
+      db.run(`
+        INSERT OR IGNORE INTO pages
+        (search_term, page_number, status, attempts, hit_count, updated_at)
+        SELECT search_term, page_number, 2, 1, COUNT(*), MAX(created_at)
+        FROM pdf_tasks
+        GROUP BY search_term, page_number
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "download provenance",
+    up: (db) => {
+      addColumnIfMissing(db, "pdf_tasks", "sha256", "TEXT");
+      addColumnIfMissing(db, "pdf_tasks", "bytes", "INTEGER");
+      addColumnIfMissing(db, "pdf_tasks", "final_name", "TEXT");
+      addColumnIfMissing(db, "pdf_tasks", "content_type", "TEXT");
+      addColumnIfMissing(db, "pdf_tasks", "duration_ms", "INTEGER");
+    },
+  },
+  {
+    version: 5,
+    description: "shared rate limiting",
+    up: (db) => {
+      // Single-row token bucket shared by the producer and all workers
+      db.run(`
+        CREATE TABLE IF NOT EXISTS rate_limiter (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          tokens REAL NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+
+      // Download slots held by workers, expiring like task leases
+      db.run(`
+        CREATE TABLE IF NOT EXISTS download_slots (
+          worker_id TEXT PRIMARY KEY,
+          expires_at INTEGER NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "resumable partial downloads",
+    up: (db) => {
+      addColumnIfMissing(db, "pdf_tasks", "partial_name", "TEXT");
+      addColumnIfMissing(db, "pdf_tasks", "partial_bytes", "INTEGER");
+      addColumnIfMissing(db, "pdf_tasks", "partial_validator", "TEXT");
+    },
+  },
+  {
+    version: 7,
+    description: "media types",
+    up: (db) => {
+      addColumnIfMissing(db, "pdf_tasks", "media_type", "TEXT");
+    },
+  },
+  {
+    version: 8,
+    description: "task outcomes",
+    up: (db) => {
+      addColumnIfMissing(db, "pdf_tasks", "outcome", "TEXT");
+      // Only worker downloads recorded a hash before
+      db.run(
+        "UPDATE pdf_tasks SET outcome = 'downloaded' WHERE status = 2 AND sha256 IS NOT NULL",
+      );
+    },
+  },
+  {
+    version: 9,
+    description: "search hit details for name templates",
+    up: (db) => {
+      addColumnIfMissing(db, "pdf_tasks", "hit_index", "INTEGER");
+      addColumnIfMissing(db, "pdf_tasks", "source_json", "TEXT");
+    },
+  },
+];
+
+/** Schema version of queues created by this version of ef-dl */
+export const QUEUE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]!.version;
+
+/**
+ * Read the search hit _source of a task row (null before schema version 9)
+ */
+function rowToSource(row: any): Record<string, unknown> | null {
+  return row.source_json ? JSON.parse(row.source_json) : null;
+}
+
+/**
+ * Read the resumable partial download of a task row
+ */
+function rowToPartial(row: any): PartialDownload | null {
+  if (!row.partial_name || !row.partial_bytes || !row.partial_validator) {
+    return null;
+  }
+
+  return {
+    partName: row.partial_name,
+    bytes: row.partial_bytes,
+    validator: row.partial_validator,
+  };
+}
+
+/**
+ * Add a column to an existing table if it is missing
+ */
+function addColumnIfMissing(
+  db: Database,
+  table: string,
+  column: string,
+  type: string,
+): void {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as any[];
+  if (!columns.some((info) => info.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
 /**
  * Task Queue Manager
  *
@@ -25,31 +213,70 @@ export class TaskQueue {
   private searchTerm: string;
   private isClosed: boolean;
 
-  constructor(downloadDir: string, searchTerm: string) {
+  /**
+   * With `readonly`, an existing queue is opened read-only for inspection:
+   * nothing is created, switched to WAL or migrated. A queue from an older
+   * version is read through a migrated in-memory copy; one from a newer
+   * version is refused.
+   */
+  constructor(
+    downloadDir: string,
+    searchTerm: string,
+    options: { readonly?: boolean } = {},
+  ) {
     this.searchTerm = searchTerm;
-    this.cacheDir = path.join(downloadDir, "cache", searchTerm);
+    this.cacheDir = getCacheDir(downloadDir, searchTerm);
+
+    if (options.readonly) {
+      this.dbPath = TaskQueue.getDbPath(downloadDir, searchTerm);
+      if (!fs.existsSync(this.dbPath)) {
+        throw new Error(
+          `No queue found for "${searchTerm}" in ${downloadDir} (expected ${this.dbPath})`,
+        );
+      }
+      this.db = new Database(this.dbPath, { readonly: true });
+      this.isClosed = false;
+      this.db.run("PRAGMA busy_timeout = 3000");
+      this.checkReadonlySchema();
+      return;
+    }
 
     // Ensure cache directory exists
     if (!fs.existsSync(this.cacheDir)) {
       fs.mkdirSync(this.cacheDir, { recursive: true });
     }
 
-    this.dbPath = path.join(this.cacheDir, `${searchTerm}.db`);
+    this.dbPath = TaskQueue.getDbPath(downloadDir, searchTerm);
     this.db = new Database(this.dbPath);
     this.isClosed = false;
 
+    // Wait if database is locked (set first so it also covers the WAL switch)
+    this.db.run("PRAGMA busy_timeout = 3000");
     // Enable WAL mode for better concurrency (multiple readers + 1 writer)
     this.db.run("PRAGMA journal_mode = WAL");
-    this.db.run("PRAGMA busy_timeout = 3000"); // Wait up to 5 seconds if database is locked
 
     this.initializeTables();
   }
 
   /**
-   * Initialize database tables
+   * Resolve the queue database path for a search term
+   */
+  static getDbPath(downloadDir: string, searchTerm: string): string {
+    return getQueueDbPath(downloadDir, searchTerm);
+  }
+
+  /**
+   * Check if a queue database exists without creating it
+   */
+  static existsFor(downloadDir: string, searchTerm: string): boolean {
+    return fs.existsSync(TaskQueue.getDbPath(downloadDir, searchTerm));
+  }
+
+  /**
+   * Initialize database tables and bring the schema up to date
    */
   private initializeTables(): void {
-    // Main task table
+    // Original (version 1) schema; later changes are applied as migrations
     this.db.run(`
       CREATE TABLE IF NOT EXISTS pdf_tasks (
         id TEXT PRIMARY KEY,
@@ -87,6 +314,96 @@ export class TaskQueue {
     this.db.run(`
       CREATE INDEX IF NOT EXISTS idx_search ON pdf_tasks(search_term)
     `);
+
+    this.runMigrations();
+  }
+
+  /**
+   * Apply pending schema migrations in order
+   * Each migration runs in its own transaction together with the version bump,
+   * so concurrent processes opening the same queue never apply one twice
+   */
+  private runMigrations(): void {
+    const currentVersion = this.getSchemaVersion();
+    if (currentVersion > QUEUE_SCHEMA_VERSION) {
+      this.close();
+      throw new Error(
+        `Queue database ${this.dbPath} uses schema version ${currentVersion}, ` +
+          `but this version of ef-dl only supports up to ${QUEUE_SCHEMA_VERSION}. ` +
+          `Upgrade ef-dl or delete the cache folder to start over.`,
+      );
+    }
+
+    for (const migration of MIGRATIONS) {
+      if (this.getSchemaVersion() >= migration.version) {
+        continue;
+      }
+
+      this.db.run("BEGIN IMMEDIATE TRANSACTION");
+
+      try {
+        // Another process may have migrated while we waited for the lock
+        if (this.getSchemaVersion() < migration.version) {
+          migration.up(this.db);
+          this.setMetadata("schema_version", String(migration.version));
+        }
+        this.db.run("COMMIT");
+      } catch (error) {
+        this.db.run("ROLLBACK");
+        throw new Error(
+          `Failed to migrate queue database ${this.dbPath} to schema version ${migration.version} (${migration.description}): ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Check the schema of a read-only queue
+   * Older queues are copied into memory and migrated there, so they read
+   * like current ones while the file stays untouched
+   */
+  private checkReadonlySchema(): void {
+    let version: number;
+    try {
+      version = this.getSchemaVersion();
+    } catch (error) {
+      this.close();
+      throw new Error(
+        `${this.dbPath} is not a queue database: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (version > QUEUE_SCHEMA_VERSION) {
+      this.close();
+      throw new Error(
+        `Queue database ${this.dbPath} uses schema version ${version}, ` +
+          `but this version of ef-dl only supports up to ${QUEUE_SCHEMA_VERSION}. ` +
+          `Upgrade ef-dl to read it.`,
+      );
+    }
+
+    if (version < QUEUE_SCHEMA_VERSION) {
+      // The copy has no WAL files, mark it as a rollback journal database
+      const image = this.db.serialize();
+      image[18] = 1;
+      image[19] = 1;
+      this.db.close();
+      this.db = Database.deserialize(image);
+      this.runMigrations();
+
+      const migrated = this.db.serialize();
+      this.db.close();
+      this.db = Database.deserialize(migrated, true);
+    }
+  }
+
+  /**
+   * Get the schema version of the queue database
+   * Queues created before versioning are treated as version 1
+   */
+  getSchemaVersion(): number {
+    const version = this.getMetadata("schema_version");
+    return version ? parseInt(version, 10) : 1;
   }
 
   /**
@@ -100,24 +417,30 @@ export class TaskQueue {
    * Initialize new queue (clear if exists)
    */
   initialize(): void {
-    // Clear existing data
+    // Clear existing data (the schema version describes the tables, keep it)
     this.db.run("DELETE FROM pdf_tasks");
-    this.db.run("DELETE FROM metadata");
+    this.db.run("DELETE FROM pages");
+    this.db.run("DELETE FROM rate_limiter");
+    this.db.run("DELETE FROM download_slots");
+    this.db.run("DELETE FROM metadata WHERE key != 'schema_version'");
   }
 
   /**
    * Insert PDFs from a page into the queue
+   * PDFs listed in completedIds (already downloaded elsewhere) are inserted
+   * as completed so workers never claim them
    */
-  insertPdfs(pdfs: PdfTask[]): void {
+  insertPdfs(pdfs: PdfTask[], completedIds: Set<string> = new Set()): void {
     const insert = this.db.prepare(`
       INSERT OR IGNORE INTO pdf_tasks 
-      (id, search_term, page_number, pdf_name, pdf_url, file_size, status, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      (id, search_term, page_number, pdf_name, pdf_url, file_size, hit_index, source_json, status, created_at, completed_at, outcome)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const now = Date.now();
 
     for (const pdf of pdfs) {
+      const isCompleted = completedIds.has(pdf.id);
       insert.run(
         pdf.id,
         pdf.searchTerm,
@@ -125,48 +448,57 @@ export class TaskQueue {
         pdf.pdfName,
         pdf.pdfUrl,
         pdf.fileSize,
-        0, // status = pending
+        pdf.hitIndex,
+        pdf.source ? JSON.stringify(pdf.source) : null,
+        isCompleted ? 2 : 0, // status = completed or pending
         now,
+        isCompleted ? now : null,
+        isCompleted ? "catalog" : null,
       );
     }
   }
 
   /**
-   * Atomically claim next pending PDF
-   * Returns null if no pending PDFs available
+   * Atomically claim next pending PDF (or a task whose lease has expired)
+   * Returns null if no claimable PDFs available
    */
   claimNextPdf(workerId: string): PdfTaskRecord | null {
     const now = Date.now();
 
-    // Start transaction
-    this.db.run("BEGIN TRANSACTION");
+    // Take the write lock up front so two workers can't claim the same row
+    this.db.run("BEGIN IMMEDIATE TRANSACTION");
 
     try {
-      // Find next pending PDF
+      // Find next pending PDF or expired lease
       const row = this.db
         .query(
           `
         SELECT * FROM pdf_tasks 
-        WHERE status = 0
+        WHERE status = 0 OR (status = 1 AND lease_expires_at < ?)
         ORDER BY page_number, pdf_name
         LIMIT 1
       `,
         )
-        .get() as any;
+        .get(now) as any;
 
       if (!row) {
         this.db.run("COMMIT");
         return null;
       }
 
+      // Reclaiming an expired lease counts as a lost attempt
+      const retryCount =
+        row.status === 1 ? row.retry_count + 1 : row.retry_count;
+
       // Update status to in_progress
       this.db.run(
         `
         UPDATE pdf_tasks 
-        SET status = 1, worker_id = ?, started_at = ?
+        SET status = 1, worker_id = ?, started_at = ?, lease_expires_at = ?,
+            retry_count = ?
         WHERE id = ?
       `,
-        [workerId, now, row.id],
+        [workerId, now, now + TASK_LEASE_MS, retryCount, row.id],
       );
 
       this.db.run("COMMIT");
@@ -178,13 +510,24 @@ export class TaskQueue {
         pdfName: row.pdf_name,
         pdfUrl: row.pdf_url,
         fileSize: row.file_size,
+        hitIndex: row.hit_index,
+        source: rowToSource(row),
         status: 1,
         workerId: workerId,
-        retryCount: row.retry_count,
+        retryCount,
         createdAt: row.created_at,
         startedAt: now,
         completedAt: null,
         error: null,
+        leaseExpiresAt: now + TASK_LEASE_MS,
+        sha256: null,
+        bytes: null,
+        finalName: null,
+        contentType: null,
+        durationMs: null,
+        mediaType: null,
+        outcome: null,
+        partial: rowToPartial(row),
       };
     } catch (error) {
       this.db.run("ROLLBACK");
@@ -193,27 +536,169 @@ export class TaskQueue {
   }
 
   /**
-   * Mark a PDF as completed
+   * Extend the lease of a task held by a worker
+   * Returns false if the worker no longer owns the task
+   */
+  renewLease(taskId: string, workerId: string): boolean {
+    const result = this.db.run(
+      `
+      UPDATE pdf_tasks 
+      SET lease_expires_at = ?
+      WHERE id = ? AND worker_id = ? AND status = 1
+    `,
+      [Date.now() + TASK_LEASE_MS, taskId, workerId],
+    );
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Give a claimed task back to pending without counting it as a failure
+   * Skipped if another worker has reclaimed the task in the meantime
+   */
+  returnToPending(taskId: string, workerId: string): void {
+    this.db.run(
+      `
+      UPDATE pdf_tasks 
+      SET status = 0, worker_id = NULL, started_at = NULL, lease_expires_at = NULL
+      WHERE id = ? AND worker_id = ? AND status = 1
+    `,
+      [taskId, workerId],
+    );
+  }
+
+  /**
+   * Return tasks with expired leases to pending
+   * Returns the number of tasks reclaimed
+   */
+  reclaimExpiredLeases(): number {
+    const result = this.db.run(
+      `
+      UPDATE pdf_tasks 
+      SET status = 0, worker_id = NULL, started_at = NULL,
+          lease_expires_at = NULL, retry_count = retry_count + 1
+      WHERE status = 1 AND lease_expires_at < ? AND search_term = ?
+    `,
+      [Date.now(), this.searchTerm],
+    );
+
+    return result.changes;
+  }
+
+  /**
+   * Mark a PDF as completed, recording provenance details of the download
+   * Skipped if another worker has reclaimed the task in the meantime.
+   * Returns false if the worker no longer owns the task
+   */
+  markComplete(
+    taskId: string,
+    workerId: string,
+    download?: CompletedDownload,
+  ): boolean {
+    const result = this.db.run(
+      `
+      UPDATE pdf_tasks 
+      SET status = 2, completed_at = ?, error = NULL, lease_expires_at = NULL,
+          sha256 = ?, bytes = ?, final_name = ?, content_type = ?, duration_ms = ?,
+          media_type = ?, outcome = 'downloaded', partial_name = NULL, partial_bytes = NULL, partial_validator = NULL
+      WHERE id = ? AND worker_id = ? AND status = 1
+    `,
+      [
+        Date.now(),
+        download?.sha256 ?? null,
+        download?.bytes ?? null,
+        download?.finalName ?? null,
+        download?.contentType ?? null,
+        download?.durationMs ?? null,
+        download?.mediaType ?? null,
+        taskId,
+        workerId,
+      ],
+    );
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Mark a PDF as completed without downloading it: the file was already on
+   * disk (and has been renamed to the name template if needed)
+   */
+  markSkippedExisting(
+    taskId: string,
+    finalName: string,
+    bytes: number,
+    mediaType: MediaType,
+  ): void {
+    this.db.run(
+      `
+      UPDATE pdf_tasks
+      SET status = 2, completed_at = ?, error = NULL, lease_expires_at = NULL,
+          bytes = ?, final_name = ?, media_type = ?, outcome = 'skipped-existing',
+          partial_name = NULL, partial_bytes = NULL, partial_validator = NULL
+      WHERE id = ?
+    `,
+      [Date.now(), bytes, finalName, mediaType, taskId],
+    );
+  }
+
+  /**
+   * Record (or clear, with null) the partial download of a task
+   * Kept across failures, retries and resumed runs until the task completes
    */
-  markComplete(taskId: string): void {
+  savePartial(taskId: string, partial: PartialDownload | null): void {
     this.db.run(
       `
       UPDATE pdf_tasks 
-      SET status = 2, completed_at = ?, error = NULL
+      SET partial_name = ?, partial_bytes = ?, partial_validator = ?
       WHERE id = ?
     `,
-      [Date.now(), taskId],
+      [
+        partial?.partName ?? null,
+        partial?.bytes ?? null,
+        partial?.validator ?? null,
+        taskId,
+      ],
     );
   }
 
+  /**
+   * Get the `.part` file names of unfinished tasks that can be resumed
+   */
+  getPartialNames(): Set<string> {
+    const rows = this.db
+      .query(
+        `
+      SELECT partial_name FROM pdf_tasks 
+      WHERE search_term = ? AND status != 2 AND partial_name IS NOT NULL
+    `,
+      )
+      .all(this.searchTerm) as any[];
+
+    return new Set(rows.map((row) => row.partial_name));
+  }
+
   /**
    * Mark a PDF as failed
+   * When a worker id is given, the update is skipped if another worker has
+   * reclaimed the task in the meantime
    */
-  markFailed(taskId: string, error: string): void {
+  markFailed(taskId: string, error: string, workerId?: string): void {
+    if (workerId) {
+      this.db.run(
+        `
+        UPDATE pdf_tasks 
+        SET status = 3, completed_at = ?, error = ?, lease_expires_at = NULL
+        WHERE id = ? AND worker_id = ?
+      `,
+        [Date.now(), error, taskId, workerId],
+      );
+      return;
+    }
+
     this.db.run(
       `
       UPDATE pdf_tasks 
-      SET status = 3, completed_at = ?, error = ?
+      SET status = 3, completed_at = ?, error = ?, lease_expires_at = NULL
       WHERE id = ?
     `,
       [Date.now(), error, taskId],
@@ -232,7 +717,8 @@ export class TaskQueue {
         SUM(CASE WHEN status = 0 THEN 1 ELSE 0 END) as pending,
         SUM(CASE WHEN status = 1 THEN 1 ELSE 0 END) as in_progress,
         SUM(CASE WHEN status = 2 THEN 1 ELSE 0 END) as completed,
-        SUM(CASE WHEN status = 3 THEN 1 ELSE 0 END) as failed
+        SUM(CASE WHEN status = 3 THEN 1 ELSE 0 END) as failed,
+        SUM(CASE WHEN outcome = 'skipped-existing' THEN 1 ELSE 0 END) as skipped_existing
       FROM pdf_tasks
       WHERE search_term = ?
     `,
@@ -245,11 +731,88 @@ export class TaskQueue {
       inProgress: result.in_progress || 0,
       completed: result.completed || 0,
       failed: result.failed || 0,
+      skippedExisting: result.skipped_existing || 0,
+    };
+  }
+
+  /**
+   * Count completed tasks per media type
+   * Tasks completed without a download (catalog) count by their file name
+   */
+  getMediaTypeCounts(): MediaCounts {
+    const rows = this.db
+      .query(
+        `
+      SELECT media_type, pdf_name FROM pdf_tasks
+      WHERE search_term = ? AND status = 2
+    `,
+      )
+      .all(this.searchTerm) as any[];
+
+    const counts: MediaCounts = {};
+    for (const row of rows) {
+      countMedia(counts, row.media_type ?? getMediaType(row.pdf_name));
+    }
+    return counts;
+  }
+
+  /**
+   * Get worker download outcomes finished within the last `windowMs`
+   * (tasks satisfied from the catalog or from files on disk are not counted)
+   */
+  getRecentOutcomes(windowMs: number): RecentOutcomes {
+    const result = this.db
+      .query(
+        `
+      SELECT 
+        SUM(CASE WHEN status = 2 THEN 1 ELSE 0 END) as completed,
+        SUM(CASE WHEN status = 3 THEN 1 ELSE 0 END) as failed,
+        AVG(CASE WHEN status = 2 THEN duration_ms END) as avg_duration
+      FROM pdf_tasks
+      WHERE search_term = ? AND status IN (2, 3)
+        AND worker_id IS NOT NULL AND completed_at >= ?
+        AND outcome IS NOT 'skipped-existing'
+    `,
+      )
+      .get(this.searchTerm, Date.now() - windowMs) as any;
+
+    return {
+      completed: result.completed || 0,
+      failed: result.failed || 0,
+      avgDurationMs: result.avg_duration ?? null,
     };
   }
 
+  /**
+   * Get the errors of worker downloads that failed since a point in time
+   */
+  getFailureErrorsSince(since: number): string[] {
+    const rows = this.db
+      .query(
+        `
+      SELECT error FROM pdf_tasks 
+      WHERE search_term = ? AND status = 3
+        AND worker_id IS NOT NULL AND completed_at >= ?
+    `,
+      )
+      .all(this.searchTerm, since) as any[];
+
+    return rows.map((row) => row.error || "");
+  }
+
+  /**
+   * Get the number of workers allowed to claim tasks (null = no limit)
+   * Workers numbered above the limit exit after their current task
+   */
+  getWorkerLimit(): number | null {
+    const value = this.getMetadata("worker_limit");
+    return value ? parseInt(value, 10) : null;
+  }
+
   /**
    * Check if all work is done
+   * Tasks held by a worker keep the queue open until they finish or their
+   * lease expires and another worker reclaims them
    */
   isComplete(): boolean {
     // Check if json_fetch_complete is set
@@ -297,29 +860,319 @@ export class TaskQueue {
   }
 
   /**
-   * Reset in-progress tasks back to pending (for resume)
+   * Read and update a metadata value atomically across processes
+   * `update` gets the current value and returns the new one, or null to
+   * leave it unchanged. Returns the value after the update.
+   */
+  updateMetadata(
+    key: MetadataKey,
+    update: (current: string | null) => string | null,
+  ): string | null {
+    this.db.run("BEGIN IMMEDIATE TRANSACTION");
+
+    try {
+      const current = this.getMetadata(key);
+      const next = update(current);
+      if (next !== null && next !== current) {
+        this.setMetadata(key, next);
+      }
+      this.db.run("COMMIT");
+      return next ?? current;
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  /**
+   * Record the start of a page fetch attempt
+   */
+  markPageFetching(pageNumber: number): void {
+    this.db.run(
+      `
+      INSERT INTO pages (search_term, page_number, status, attempts, updated_at)
+      VALUES (?, ?, 1, 1, ?)
+      ON CONFLICT(search_term, page_number)
+      DO UPDATE SET status = 1, attempts = attempts + 1, updated_at = excluded.updated_at
+    `,
+      [this.searchTerm, pageNumber, Date.now()],
+    );
+  }
+
+  /**
+   * Mark a page as fetched once its tasks are in the queue
+   */
+  markPageFetched(pageNumber: number, hitCount: number): void {
+    this.db.run(
+      `
+      UPDATE pages 
+      SET status = 2, hit_count = ?, error = NULL, updated_at = ?
+      WHERE search_term = ? AND page_number = ?
+    `,
+      [hitCount, Date.now(), this.searchTerm, pageNumber],
+    );
+  }
+
+  /**
+   * Mark a page as failed (it is fetched again on resume)
+   */
+  markPageFailed(pageNumber: number, error: string): void {
+    this.db.run(
+      `
+      UPDATE pages 
+      SET status = 3, error = ?, updated_at = ?
+      WHERE search_term = ? AND page_number = ?
+    `,
+      [error, Date.now(), this.searchTerm, pageNumber],
+    );
+  }
+
+  /**
+   * Get page fetch statistics
+   */
+  getPageProgress(): PageProgress {
+    const result = this.db
+      .query(
+        `
+      SELECT 
+        COUNT(*) as total,
+        SUM(CASE WHEN status = 0 THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN status = 1 THEN 1 ELSE 0 END) as fetching,
+        SUM(CASE WHEN status = 2 THEN 1 ELSE 0 END) as fetched,
+        SUM(CASE WHEN status = 3 THEN 1 ELSE 0 END) as failed
+      FROM pages
+      WHERE search_term = ?
+    `,
+      )
+      .get(this.searchTerm) as any;
+
+    return {
+      total: result.total || 0,
+      pending: result.pending || 0,
+      fetching: result.fetching || 0,
+      fetched: result.fetched || 0,
+      failed: result.failed || 0,
+    };
+  }
+
+  /**
+   * Get all failed pages
+   */
+  getFailedPages(): PageRecord[] {
+    const rows = this.db
+      .query(
+        `
+      SELECT * FROM pages 
+      WHERE search_term = ? AND status = 3
+      ORDER BY page_number
+    `,
+      )
+      .all(this.searchTerm) as any[];
+
+    return rows.map((row) => ({
+      searchTerm: row.search_term,
+      pageNumber: row.page_number,
+      status: row.status as PageStatus,
+      attempts: row.attempts,
+      hitCount: row.hit_count,
+      error: row.error,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  /**
+   * Get fetch state and task counts for every known page
+   */
+  getPageSummaries(): PageSummary[] {
+    const rows = this.db
+      .query(
+        `
+      SELECT 
+        p.page_number, p.status, p.attempts, p.error,
+        COUNT(t.id) as total,
+        SUM(CASE WHEN t.status = 0 THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN t.status = 1 THEN 1 ELSE 0 END) as in_progress,
+        SUM(CASE WHEN t.status = 2 THEN 1 ELSE 0 END) as completed,
+        SUM(CASE WHEN t.status = 3 THEN 1 ELSE 0 END) as failed
+      FROM pages p
+      LEFT JOIN pdf_tasks t
+        ON t.search_term = p.search_term AND t.page_number = p.page_number
+      WHERE p.search_term = ?
+      GROUP BY p.page_number
+      ORDER BY p.page_number
+    `,
+      )
+      .all(this.searchTerm) as any[];
+
+    return rows.map((row) => ({
+      pageNumber: row.page_number,
+      fetchStatus: row.status as PageStatus,
+      fetchAttempts: row.attempts,
+      fetchError: row.error,
+      total: row.total || 0,
+      pending: row.pending || 0,
+      inProgress: row.in_progress || 0,
+      completed: row.completed || 0,
+      failed: row.failed || 0,
+    }));
+  }
+
+  /**
+   * Get the most recently failed tasks, newest first
+   */
+  getRecentFailures(limit: number): PdfTaskRecord[] {
+    const rows = this.db
+      .query(
+        `
+      SELECT * FROM pdf_tasks 
+      WHERE search_term = ? AND status = 3
+      ORDER BY completed_at DESC
+      LIMIT ?
+    `,
+      )
+      .all(this.searchTerm, limit) as any[];
+
+    return rows.map((row) => this.rowToTaskRecord(row));
+  }
+
+  /**
+   * Reset in-progress tasks and pages back to pending (for resume)
    */
   resetInProgress(): void {
     this.db.run(
       `
       UPDATE pdf_tasks 
-      SET status = 0, worker_id = NULL, started_at = NULL 
+      SET status = 0, worker_id = NULL, started_at = NULL, lease_expires_at = NULL
       WHERE status = 1 AND search_term = ?
     `,
       [this.searchTerm],
     );
+
+    // Pages interrupted mid-fetch are fetched again
+    this.db.run(
+      `
+      UPDATE pages 
+      SET status = 0
+      WHERE status = 1 AND search_term = ?
+    `,
+      [this.searchTerm],
+    );
+
+    // Slots of workers from the interrupted run
+    this.db.run("DELETE FROM download_slots");
+  }
+
+  /**
+   * Take one token from the shared token bucket
+   * The bucket refills at `requestsPerSecond` and holds at most `burst`
+   * tokens. Returns 0 if a token was taken, otherwise the milliseconds to
+   * wait until one is available.
+   */
+  takeRateToken(requestsPerSecond: number, burst: number): number {
+    const now = Date.now();
+
+    this.db.run("BEGIN IMMEDIATE TRANSACTION");
+
+    try {
+      const row = this.db
+        .query("SELECT tokens, updated_at FROM rate_limiter WHERE id = 1")
+        .get() as any;
+
+      const elapsed = row ? Math.max(0, now - row.updated_at) : 0;
+      const available = row
+        ? Math.min(burst, row.tokens + (elapsed / 1000) * requestsPerSecond)
+        : burst;
+
+      if (available < 1) {
+        this.db.run(
+          "UPDATE rate_limiter SET tokens = ?, updated_at = ? WHERE id = 1",
+          [available, now],
+        );
+        this.db.run("COMMIT");
+        return Math.ceil(((1 - available) / requestsPerSecond) * 1000);
+      }
+
+      this.db.run(
+        `
+        INSERT OR REPLACE INTO rate_limiter (id, tokens, updated_at)
+        VALUES (1, ?, ?)
+      `,
+        [available - 1, now],
+      );
+      this.db.run("COMMIT");
+      return 0;
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  /**
+   * Try to take one of `maxConcurrent` download slots for a worker
+   * Slots expire after the task lease duration unless renewed, so slots of
+   * crashed workers free up on their own
+   */
+  acquireDownloadSlot(workerId: string, maxConcurrent: number): boolean {
+    const now = Date.now();
+
+    this.db.run("BEGIN IMMEDIATE TRANSACTION");
+
+    try {
+      this.db.run("DELETE FROM download_slots WHERE expires_at < ?", [now]);
+
+      const held = this.db
+        .query(
+          "SELECT COUNT(*) as count FROM download_slots WHERE worker_id != ?",
+        )
+        .get(workerId) as any;
+
+      if (held.count >= maxConcurrent) {
+        this.db.run("COMMIT");
+        return false;
+      }
+
+      this.db.run(
+        `
+        INSERT OR REPLACE INTO download_slots (worker_id, expires_at)
+        VALUES (?, ?)
+      `,
+        [workerId, now + TASK_LEASE_MS],
+      );
+      this.db.run("COMMIT");
+      return true;
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  /**
+   * Extend the download slot held by a worker
+   */
+  renewDownloadSlot(workerId: string): void {
+    this.db.run(
+      "UPDATE download_slots SET expires_at = ? WHERE worker_id = ?",
+      [Date.now() + TASK_LEASE_MS, workerId],
+    );
   }
 
   /**
-   * Check if a page already has tasks in the queue
+   * Give back the download slot held by a worker
+   */
+  releaseDownloadSlot(workerId: string): void {
+    this.db.run("DELETE FROM download_slots WHERE worker_id = ?", [workerId]);
+  }
+
+  /**
+   * Check if a page has already been fetched into the queue
    */
   hasPage(pageNumber: number): boolean {
     const result = this.db
       .query(
         `
       SELECT COUNT(*) as count 
-      FROM pdf_tasks 
-      WHERE search_term = ? AND page_number = ?
+      FROM pages 
+      WHERE search_term = ? AND page_number = ? AND status = 2
     `,
       )
       .get(this.searchTerm, pageNumber) as any;
@@ -327,6 +1180,26 @@ export class TaskQueue {
     return result.count > 0;
   }
 
+  /**
+   * Get all tasks, optionally limited to some statuses
+   */
+  getTasks(statuses?: TaskStatus[]): PdfTaskRecord[] {
+    const statusFilter = statuses?.length
+      ? `AND status IN (${statuses.map(() => "?").join(", ")})`
+      : "";
+    const rows = this.db
+      .query(
+        `
+      SELECT * FROM pdf_tasks 
+      WHERE search_term = ? ${statusFilter}
+      ORDER BY page_number, pdf_name
+    `,
+      )
+      .all(this.searchTerm, ...(statuses || [])) as any[];
+
+    return rows.map((row) => this.rowToTaskRecord(row));
+  }
+
   /**
    * Get all failed tasks
    */
@@ -344,6 +1217,90 @@ export class TaskQueue {
     return rows.map((row) => this.rowToTaskRecord(row));
   }
 
+  /**
+   * Reset failed tasks matching the filter back to pending
+   * Returns the number of tasks requeued
+   */
+  requeueFailed(filter: FailedTaskFilter = {}): number {
+    // Take the write lock before reading, so no worker changes the failed
+    // tasks between the read and the updates
+    this.db.run("BEGIN IMMEDIATE TRANSACTION");
+
+    try {
+      const tasks = this.getFailedTasks().filter((task) =>
+        matchesFailedTaskFilter(task, filter),
+      );
+
+      for (const task of tasks) {
+        this.db.run(
+          `
+          UPDATE pdf_tasks 
+          SET status = 0, worker_id = NULL, started_at = NULL,
+              completed_at = NULL, error = NULL, lease_expires_at = NULL,
+              retry_count = retry_count + 1
+          WHERE id = ?
+        `,
+          [task.id],
+        );
+      }
+
+      this.db.run("COMMIT");
+      return tasks.length;
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  /**
+   * Return worker downloads that failed since a point in time to pending,
+   * only those whose error `isRetryable` accepts (e.g. transient errors)
+   * Returns the number of tasks requeued
+   */
+  requeueFailedSince(
+    since: number,
+    isRetryable: (error: string) => boolean,
+  ): number {
+    this.db.run("BEGIN IMMEDIATE TRANSACTION");
+
+    try {
+      const failed = this.db
+        .query(
+          `
+        SELECT id, error FROM pdf_tasks
+        WHERE search_term = ? AND status = 3
+          AND worker_id IS NOT NULL AND completed_at >= ?
+      `,
+        )
+        .all(this.searchTerm, since) as any[];
+
+      let requeued = 0;
+      for (const task of failed) {
+        if (!isRetryable(task.error || "")) {
+          continue;
+        }
+
+        this.db.run(
+          `
+          UPDATE pdf_tasks
+          SET status = 0, worker_id = NULL, started_at = NULL,
+              completed_at = NULL, error = NULL, lease_expires_at = NULL,
+              retry_count = retry_count + 1
+          WHERE id = ?
+        `,
+          [task.id],
+        );
+        requeued++;
+      }
+
+      this.db.run("COMMIT");
+      return requeued;
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
   /**
    * Convert database row to PdfTaskRecord
    */
@@ -355,6 +1312,8 @@ export class TaskQueue {
       pdfName: row.pdf_name,
       pdfUrl: row.pdf_url,
       fileSize: row.file_size,
+      hitIndex: row.hit_index,
+      source: rowToSource(row),
       status: row.status as TaskStatus,
       workerId: row.worker_id,
       retryCount: row.retry_count,
@@ -362,6 +1321,15 @@ export class TaskQueue {
       startedAt: row.started_at,
       completedAt: row.completed_at,
       error: row.error,
+      leaseExpiresAt: row.lease_expires_at,
+      sha256: row.sha256,
+      bytes: row.bytes,
+      finalName: row.final_name,
+      contentType: row.content_type,
+      durationMs: row.duration_ms,
+      mediaType: row.media_type,
+      outcome: row.outcome,
+      partial: rowToPartial(row),
     };
   }
 
@@ -386,3 +1354,33 @@ export class TaskQueue {
     }
   }
 }
+
+/**
+ * Check a failed task against the retry filters (all given filters must match)
+ */
+function matchesFailedTaskFilter(
+  task: PdfTaskRecord,
+  filter: FailedTaskFilter,
+): boolean {
+  if (filter.pages?.length && !filter.pages.includes(task.pageNumber)) {
+    return false;
+  }
+
+  if (
+    filter.errorContains &&
+    !(task.error || "")
+      .toLowerCase()
+      .includes(filter.errorContains.toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (
+    filter.nameContains &&
+    !task.pdfName.toLowerCase().includes(filter.nameContains.toLowerCase())
+  ) {
+    return false;
+  }
+
+  return true;
+}
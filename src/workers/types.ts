@@ -3,7 +3,7 @@
  * Producer-Consumer Pipeline Architecture
  */
 
-import type { PrefixMode } from "../types/enums.js";
+import type { MediaCounts, MediaType } from "../utils/media.js";
 
 /**
  * Represents a single PDF task in the queue
@@ -15,17 +15,27 @@ export interface PdfTask {
   pdfName: string;
   pdfUrl: string;
   fileSize: number;
+  hitIndex: number | null; // Position on the search results page, from 1
+  source: Record<string, unknown> | null; // _source of the search hit
 }
 
 /**
  * Task status codes
  * 0 = Pending (not started)
- * 1 = In Progress (worker claimed it)
+ * 1 = In Progress (worker holds a lease on it)
  * 2 = Completed (successfully downloaded)
  * 3 = Failed (after retries)
  */
 export type TaskStatus = 0 | 1 | 2 | 3;
 
+/**
+ * How a completed task was satisfied
+ * downloaded = fetched by a worker
+ * skipped-existing = file was already on disk (renamed if the name template changed)
+ * catalog = already downloaded for another search term
+ */
+export type TaskOutcome = "downloaded" | "skipped-existing" | "catalog";
+
 /**
  * PDF task as stored in the database
  */
@@ -37,6 +47,173 @@ export interface PdfTaskRecord extends PdfTask {
   startedAt: number | null;
   completedAt: number | null;
   error: string | null;
+  leaseExpiresAt: number | null;
+  sha256: string | null;
+  bytes: number | null;
+  finalName: string | null;
+  contentType: string | null;
+  durationMs: number | null;
+  mediaType: MediaType | null; // Detected type of the downloaded file
+  outcome: TaskOutcome | null; // Set once completed
+  partial: PartialDownload | null; // Resumable bytes of an unfinished download
+}
+
+/**
+ * Provenance details recorded when a download completes
+ */
+export interface CompletedDownload {
+  sha256: string;
+  bytes: number;
+  finalName: string;
+  contentType: string | null;
+  durationMs: number;
+  mediaType: MediaType;
+}
+
+/**
+ * Bytes of an interrupted download kept in `{dir}/{partName}`
+ * The validator (ETag or Last-Modified) makes sure a resumed download
+ * continues the same file
+ */
+export interface PartialDownload {
+  partName: string;
+  bytes: number;
+  validator: string;
+}
+
+/**
+ * Catalog document status codes
+ * 0 = Seen (found by a search, not downloaded yet)
+ * 2 = Downloaded (local_path holds the file)
+ * 3 = Failed (last download attempt failed)
+ */
+export type CatalogStatus = 0 | 2 | 3;
+
+/**
+ * Document as stored in the global catalog
+ */
+export interface CatalogDocument {
+  pdfUrl: string;
+  pdfName: string;
+  fileSize: number;
+  status: CatalogStatus;
+  localPath: string | null;
+  bytes: number | null;
+  searchTerms: string[];
+  firstSeenAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Page fetch status codes
+ * 0 = Pending (not fetched yet)
+ * 1 = Fetching (coordinator is requesting it)
+ * 2 = Fetched (tasks inserted into the queue)
+ * 3 = Failed (after retries, refetched on resume)
+ */
+export type PageStatus = 0 | 1 | 2 | 3;
+
+/**
+ * Search results page as stored in the database
+ */
+export interface PageRecord {
+  searchTerm: string;
+  pageNumber: number;
+  status: PageStatus;
+  attempts: number;
+  hitCount: number | null;
+  error: string | null;
+  updatedAt: number;
+}
+
+/**
+ * Fetch statistics for search results pages
+ */
+export interface PageProgress {
+  total: number;
+  pending: number;
+  fetching: number;
+  fetched: number;
+  failed: number;
+}
+
+/**
+ * Fetch state and task counts of a single search results page
+ */
+export interface PageSummary {
+  pageNumber: number;
+  fetchStatus: PageStatus;
+  fetchAttempts: number;
+  fetchError: string | null;
+  total: number;
+  pending: number;
+  inProgress: number;
+  completed: number;
+  failed: number;
+}
+
+/**
+ * Limits shared by the producer and all workers of a search (0 = unlimited)
+ */
+export interface RateLimits {
+  requestsPerSecond: number;
+  maxConcurrentDownloads: number;
+}
+
+/**
+ * How workers retry a failed download
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Attempts per PDF, including the first
+  baseDelayMs: number; // Delay after the first attempt, doubled per attempt
+  maxDelayMs: number;
+  jitter: number; // 0-1, random ± fraction applied to each delay
+}
+
+/**
+ * Permanent errors fail the task right away, transient ones are retried
+ */
+export type ErrorClass = "permanent" | "transient";
+
+/**
+ * Circuit breaker states: closed (normal), open (claiming paused) and
+ * half-open (one worker probes with a single download)
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Shared circuit breaker state, kept as JSON in the queue metadata
+ */
+export interface CircuitBreakerState {
+  state: CircuitState;
+  openedAt: number | null; // Start of the current outage
+  nextProbeAt: number | null; // When a (new) probe may start
+  probeWorkerId: string | null;
+  closedAt: number | null; // Failures before this no longer count
+  trips: number;
+}
+
+/**
+ * What the circuit breaker allows a worker to do before claiming
+ */
+export type ClaimPermission = "claim" | "probe" | "wait";
+
+/**
+ * Download outcomes within a recent time window
+ */
+export interface RecentOutcomes {
+  completed: number;
+  failed: number;
+  avgDurationMs: number | null;
+}
+
+/**
+ * A worker count decision made by the auto scaler
+ */
+export interface ScalingDecision {
+  from: number;
+  to: number;
+  reason: string;
 }
 
 /**
@@ -48,6 +225,16 @@ export interface QueueProgress {
   inProgress: number;
   completed: number;
   failed: number;
+  skippedExisting: number; // Completed tasks whose file was already on disk
+}
+
+/**
+ * Filters for selecting failed tasks to retry
+ */
+export interface FailedTaskFilter {
+  pages?: number[];
+  errorContains?: string;
+  nameContains?: string;
 }
 
 /**
@@ -57,11 +244,16 @@ export interface CoordinatorOptions {
   startPage?: number;
   endPage?: number; // For single page or range downloads
   workers?: number;
+  autoScale?: boolean; // --workers auto: adjust the worker count while running
+  pageConcurrency?: number; // Parallel JSON page fetches (separate from workers)
   fresh?: boolean;
   verbose?: boolean;
-  prefixMode?: PrefixMode;
-  customPrefix?: string;
+  nameTemplate?: string; // File name template (default: {name})
   cache?: boolean;
+  dryRun?: boolean; // Fetch metadata and report a plan, download nothing
+  isolation?: WorkerIsolation;
+  rateLimits?: RateLimits; // Default: DEFAULT_RATE_LIMITS
+  retryPolicy?: RetryPolicy;
 }
 
 /**
@@ -72,8 +264,50 @@ export interface CoordinatorResult {
   totalPdfs: number;
   completedPdfs: number;
   failedPdfs: number;
+  failedPages: number;
   duration: number;
   workersUsed: number;
+  workerRestarts: number;
+  mediaCounts: MediaCounts; // Completed downloads per media type
+  plan?: DownloadPlan; // Only set for dry runs
+}
+
+/**
+ * What a download would do with a single PDF
+ */
+export type PlanAction = "present" | "rename" | "download";
+
+/**
+ * Single PDF entry of a download plan
+ */
+export interface DownloadPlanEntry {
+  pageNumber: number;
+  pdfName: string;
+  pdfUrl: string;
+  fileSize: number;
+  action: PlanAction;
+  targetName: string;
+  existingName: string | null;
+}
+
+/**
+ * Result of a dry run: what a download would fetch, skip or rename
+ */
+export interface DownloadPlan {
+  searchTerm: string;
+  createdAt: string;
+  startPage: number;
+  endPage: number;
+  totalHits: number;
+  totalPages: number;
+  failedPages: number[];
+  totalPdfs: number;
+  presentPdfs: number;
+  renamePdfs: number;
+  newPdfs: number;
+  totalBytes: number;
+  downloadBytes: number;
+  files: DownloadPlanEntry[];
 }
 
 /**
@@ -82,8 +316,132 @@ export interface CoordinatorResult {
 export interface WorkerPoolOptions {
   verbose?: boolean;
   onProgress?: (progress: QueueProgress) => void;
-  prefixMode?: PrefixMode;
-  customPrefix?: string;
+  nameTemplate?: string;
+  isolation?: WorkerIsolation;
+  autoScale?: boolean;
+  onWorkerEvent?: (event: WorkerEvent, workers: WorkerState[]) => void;
+}
+
+/**
+ * How workers are run:
+ * - process: a separate `bun` process per worker (default)
+ * - thread: a Bun Worker thread per worker inside the main process
+ */
+export type WorkerIsolation = "process" | "thread";
+
+/**
+ * Message sent by the pool to start a worker thread
+ */
+export interface WorkerThreadStart {
+  searchTerm: string;
+  downloadDir: string;
+  workerId: string;
+  verbose: boolean;
+  nameTemplate: string;
+}
+
+/**
+ * Message sent by a worker thread when it has finished
+ * Output is only captured when not verbose (like piped process output)
+ */
+export interface WorkerThreadDone {
+  kind: "done";
+  result: WorkerResult;
+  output: string;
+  exitCode: number;
+}
+
+/**
+ * Message carrying a live event from a worker thread
+ */
+export interface WorkerThreadEvent {
+  kind: "event";
+  event: WorkerEvent;
+}
+
+/**
+ * Messages posted by worker threads to the pool
+ */
+export type WorkerThreadMessage = WorkerThreadDone | WorkerThreadEvent;
+
+/**
+ * Live events sent by workers to the pool
+ * Process workers write them as JSON lines to fd 3, thread workers post them.
+ * They only drive the display; the queue database stays the source of truth.
+ */
+export type WorkerEvent =
+  | {
+      type: "claimed";
+      workerId: string;
+      taskId: string;
+      pdfName: string;
+      pageNumber: number;
+      fileSize: number;
+    }
+  | {
+      type: "progress";
+      workerId: string;
+      taskId: string;
+      bytes: number;
+      totalBytes: number | null;
+    }
+  | {
+      type: "retrying";
+      workerId: string;
+      taskId: string;
+      attempt: number;
+      maxAttempts: number;
+      error: string;
+      delayMs: number;
+    }
+  | {
+      type: "completed";
+      workerId: string;
+      taskId: string;
+      bytes: number;
+      durationMs: number;
+    }
+  | { type: "failed"; workerId: string; taskId: string; error: string }
+  | { type: "skipped"; workerId: string; taskId: string; fileName: string }
+  | { type: "released"; workerId: string; taskId: string; reason: string }
+  | { type: "paused"; workerId: string; reason: string }
+  | {
+      type: "exiting";
+      workerId: string;
+      reason: string;
+      pdfsSucceeded: number;
+      pdfsFailed: number;
+    };
+
+/**
+ * Receives worker events
+ */
+export type WorkerEventSink = (event: WorkerEvent) => void;
+
+/**
+ * What a worker is currently doing, as last reported by its events
+ */
+export type WorkerActivity =
+  | "starting"
+  | "idle"
+  | "downloading"
+  | "retrying"
+  | "paused"
+  | "exited";
+
+/**
+ * Live state of a single worker, maintained by the pool from worker events
+ */
+export interface WorkerState {
+  workerId: string;
+  activity: WorkerActivity;
+  pdfName: string | null;
+  bytes: number;
+  totalBytes: number | null;
+  completed: number;
+  failed: number;
+  skipped: number; // Already on disk, not downloaded
+  lastError: string | null;
 }
 
 /**
@@ -93,6 +451,7 @@ export interface WorkerPoolResult {
   totalWorkers: number;
   completedWorkers: number;
   failedWorkers: number;
+  restarts: number; // Workers restarted after exiting early
 }
 
 /**
@@ -101,8 +460,7 @@ export interface WorkerPoolResult {
 export interface WorkerOptions {
   downloadDir: string;
   verbose?: boolean;
-  prefixMode?: PrefixMode;
-  customPrefix?: string;
+  nameTemplate?: string;
 }
 
 /**
@@ -123,7 +481,13 @@ export type MetadataKey =
   | "json_fetch_complete"
   | "total_pages"
   | "total_pdfs"
-  | "start_time";
+  | "start_time"
+  | "schema_version"
+  | "rate_limit_rps"
+  | "max_concurrent_downloads"
+  | "worker_limit"
+  | "retry_policy"
+  | "circuit_breaker";
 
 /**
  * JSON data structure from justice.gov API
@@ -138,6 +502,7 @@ export interface JusticeGovJson {
         ORIGIN_FILE_NAME: string;
         ORIGIN_FILE_URI: string;
         fileSize: number;
+        [field: string]: unknown; // Available to name templates
       };
     }>;
   };
@@ -0,0 +1,84 @@
+import fs from "fs";
+import type { WorkerEvent, WorkerEventSink } from "./types.js";
+
+/** File descriptor process workers write their events to */
+export const WORKER_EVENT_FD = 3;
+
+/**
+ * Event sink that writes JSON lines to a file descriptor
+ * Write errors are ignored: events are only a display aid and the pool may
+ * already be gone when a worker reports that it is exiting
+ */
+export function createFdEventSink(fd: number): WorkerEventSink {
+  return (event) => {
+    try {
+      fs.writeSync(fd, JSON.stringify(event) + "\n");
+    } catch {
+      // Channel closed, keep working
+    }
+  };
+}
+
+/**
+ * Parse a stream of JSON lines into worker events
+ * Returns a function to feed raw chunks; partial lines are buffered.
+ * Malformed lines are skipped, errors thrown by `onEvent` are not.
+ */
+export function createEventLineParser(
+  onEvent: WorkerEventSink,
+): (chunk: Buffer | string) => void {
+  let buffered = "";
+
+  return (chunk) => {
+    buffered += chunk.toString();
+
+    let newline = buffered.indexOf("\n");
+    while (newline !== -1) {
+      const line = buffered.slice(0, newline).trim();
+      buffered = buffered.slice(newline + 1);
+
+      const event = line ? parseEventLine(line) : null;
+      if (event) {
+        onEvent(event);
+      }
+
+      newline = buffered.indexOf("\n");
+    }
+  };
+}
+
+/**
+ * Parse one JSON line (null if malformed)
+ */
+function parseEventLine(line: string): WorkerEvent | null {
+  try {
+    return JSON.parse(line) as WorkerEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wrap a sink so progress events are sent at most once per interval
+ * (the final progress event and all other events always pass through)
+ */
+export function throttleProgressEvents(
+  sink: WorkerEventSink,
+  intervalMs: number,
+): WorkerEventSink {
+  let lastProgressAt = 0;
+
+  return (event) => {
+    if (event.type === "progress") {
+      const now = Date.now();
+      const isFinal =
+        event.totalBytes !== null && event.bytes >= event.totalBytes;
+      if (!isFinal && now - lastProgressAt < intervalMs) {
+        return;
+      }
+      lastProgressAt = now;
+    }
+
+    sink(event);
+  };
+}
@@ -1,27 +1,79 @@
-import { spawn } from "child_process";
+import { spawn, type ChildProcess } from "child_process";
 import path from "path";
 import chalk from "chalk";
 import { TaskQueue } from "./task-queue.js";
-import type { WorkerPoolOptions, WorkerPoolResult } from "./types.js";
+import {
+  AUTO_INITIAL_WORKERS,
+  AUTO_MIN_WORKERS,
+  AutoScaler,
+  SCALING_INTERVAL_MS,
+  SCALING_WINDOW_MS,
+  getWorkerNumber,
+} from "./auto-scaler.js";
+import { CircuitBreaker } from "./circuit-breaker.js";
+import {
+  MAX_RESTARTS_PER_WORKER,
+  getRestartDelay,
+  hasRestartBudget,
+} from "./restart-policy.js";
+import { WORKER_EVENT_FD, createEventLineParser } from "./worker-events.js";
+import type {
+  CircuitState,
+  WorkerEvent,
+  WorkerIsolation,
+  WorkerPoolOptions,
+  WorkerPoolResult,
+  WorkerState,
+  WorkerThreadMessage,
+  WorkerThreadStart,
+} from "./types.js";
 import { logger } from "../utils/logger";
-import type { PrefixMode } from "../types/enums.js";
+import { DEFAULT_NAME_TEMPLATE } from "../utils/naming.js";
+
+/** Worker entry points, resolved relative to this module (not the cwd) */
+const WORKER_SCRIPT = path.join(import.meta.dir, "worker.ts");
+const WORKER_THREAD_SCRIPT = path.join(import.meta.dir, "worker-thread.ts");
 
 /**
  * Worker Pool Manager
  *
- * Manages a pool of worker processes for parallel PDF downloading.
+ * Manages a pool of workers for parallel PDF downloading, run either as
+ * separate processes or as Bun Worker threads (see WorkerIsolation).
  * Spawns workers, monitors their health, and coordinates shutdown.
+ *
+ * Workers report live events (see WorkerEvent) that keep a per-worker state
+ * and refresh progress immediately; counts always come from the queue.
+ *
+ * With autoScale (`--workers auto`) the worker count is adjusted while
+ * running (see AutoScaler). The current count is stored as `worker_limit` in
+ * the queue metadata; workers numbered above it exit after their current task.
+ *
+ * Workers that exit while work remains (consecutive-error valve, crash, OOM)
+ * are restarted with backoff, within a per-worker and a global budget.
+ *
+ * Workers pause together while the shared CircuitBreaker is open.
  */
 export class WorkerPool {
   private queue: TaskQueue;
   private workerCount: number;
   private options: WorkerPoolOptions;
-  private workers: Map<string, ReturnType<typeof spawn>>;
+  private workers: Map<string, ChildProcess | Worker>;
   private results: Map<string, { code: number; signal: string | null }>;
+  private workerStates: Map<string, WorkerState>;
   private searchTerm: string;
   private downloadDir: string;
-  private prefixMode: PrefixMode;
-  private customPrefix?: string;
+  private nameTemplate: string;
+  private isolation: WorkerIsolation;
+  private autoScaler: AutoScaler | null;
+  private startedWorkers: Set<string>;
+  private scaledDownWorkers: Set<string>;
+  private restartCounts: Map<string, number>;
+  private scheduledRestarts: Map<string, number>;
+  private totalRestarts: number;
+  private budgetWarned: boolean;
+  private terminating: boolean;
+  private breaker: CircuitBreaker;
+  private breakerState: CircuitState;
 
   constructor(
     queue: TaskQueue,
@@ -32,13 +84,30 @@ export class WorkerPool {
   ) {
     this.queue = queue;
     this.workerCount = Math.max(1, Math.min(10, workerCount)); // Clamp 1-10
+    // In auto mode workerCount is the upper bound
+    this.autoScaler = options.autoScale
+      ? new AutoScaler(AUTO_INITIAL_WORKERS, AUTO_MIN_WORKERS, this.workerCount)
+      : null;
+    if (this.autoScaler) {
+      this.workerCount = this.autoScaler.getTarget();
+    }
+    this.startedWorkers = new Set();
+    this.scaledDownWorkers = new Set();
+    this.restartCounts = new Map();
+    this.scheduledRestarts = new Map();
+    this.totalRestarts = 0;
+    this.budgetWarned = false;
+    this.terminating = false;
+    this.breaker = new CircuitBreaker(queue);
+    this.breakerState = "closed";
     this.options = options;
     this.workers = new Map();
     this.results = new Map();
+    this.workerStates = new Map();
     this.searchTerm = searchTerm;
     this.downloadDir = downloadDir;
-    this.prefixMode = options.prefixMode || "page";
-    this.customPrefix = options.customPrefix;
+    this.nameTemplate = options.nameTemplate || DEFAULT_NAME_TEMPLATE;
+    this.isolation = options.isolation || "process";
   }
 
   /**
@@ -47,13 +116,16 @@ export class WorkerPool {
   async start(): Promise<void> {
     if (this.options.verbose) {
       logger.debug(
-        chalk.blue(`Starting ${this.workerCount} worker processes...`),
+        chalk.blue(
+          `Starting ${this.workerCount} worker ${this.isolation === "thread" ? "threads" : "processes"}...`,
+        ),
       );
     }
 
+    this.queue.setMetadata("worker_limit", String(this.workerCount));
+
     for (let i = 0; i < this.workerCount; i++) {
-      const workerId = `worker-${i + 1}`;
-      this.spawnWorker(workerId);
+      this.startWorker(`worker-${i + 1}`);
     }
 
     if (this.options.verbose) {
@@ -61,37 +133,110 @@ export class WorkerPool {
     }
   }
 
+  /**
+   * Start a worker with the configured isolation
+   */
+  private startWorker(workerId: string): void {
+    this.startedWorkers.add(workerId);
+    if (this.isolation === "thread") {
+      this.startWorkerThread(workerId);
+    } else {
+      this.spawnWorker(workerId);
+    }
+  }
+
+  /**
+   * Re-evaluate the worker count (auto mode) and apply the decision
+   */
+  private applyScaling(): void {
+    if (!this.autoScaler) {
+      return;
+    }
+
+    const progress = this.queue.getProgress();
+    const decision = this.autoScaler.evaluate(
+      this.queue.getRecentOutcomes(SCALING_WINDOW_MS),
+      progress.pending,
+    );
+
+    if (decision.to === decision.from) {
+      logger.debug(
+        chalk.gray(
+          `Auto-scaling: keeping ${decision.from} workers - ${decision.reason}`,
+        ),
+      );
+      return;
+    }
+
+    logger.info(
+      chalk.cyan(
+        `Auto-scaling: ${decision.from} → ${decision.to} workers - ${decision.reason}`,
+      ),
+    );
+
+    this.workerCount = decision.to;
+    this.queue.setMetadata("worker_limit", String(decision.to));
+
+    // Scaling down needs nothing else: workers above the limit exit on
+    // their own once their current task is done
+    for (let i = 1; i <= decision.to; i++) {
+      const workerId = `worker-${i}`;
+      if (this.workers.has(workerId) || this.scheduledRestarts.has(workerId)) {
+        continue;
+      }
+
+      // Workers that stopped for another reason than scaling down come back
+      // as a restart, within the restart budget
+      if (
+        this.startedWorkers.has(workerId) &&
+        !this.scaledDownWorkers.delete(workerId)
+      ) {
+        if (!this.canRestart(workerId)) {
+          continue;
+        }
+        this.countRestart(workerId);
+      }
+      this.startWorker(workerId);
+    }
+  }
+
   /**
    * Spawn a single worker process
    */
   private spawnWorker(workerId: string): void {
     const args = [
-      "src/workers/worker.ts",
+      WORKER_SCRIPT,
       "--search",
       this.searchTerm,
       "--directory",
       this.downloadDir,
       "--worker-id",
       workerId,
+      "--events-fd",
+      String(WORKER_EVENT_FD),
     ];
 
-    if (this.prefixMode) {
-      args.push("--prefix-mode", this.prefixMode);
-    }
-
-    if (this.customPrefix) {
-      args.push("--prefix", this.customPrefix);
-    }
+    // Inline value: a template may start with "-"
+    args.push(`--name-template=${this.nameTemplate}`);
 
     if (this.options.verbose) {
       args.push("--verbose");
     }
 
-    const worker = spawn("bun", args, {
-      stdio: this.options.verbose ? "inherit" : "pipe",
+    // Run workers with the same Bun binary, which need not be on the PATH;
+    // fd 3 carries the worker's JSON-line events
+    const outputMode = this.options.verbose ? "inherit" : "pipe";
+    const worker = spawn(process.execPath, args, {
+      stdio: [outputMode, outputMode, outputMode, "pipe"],
     });
 
     this.workers.set(workerId, worker);
+    this.initWorkerState(workerId);
+
+    const parseEvents = createEventLineParser((event) =>
+      this.handleWorkerEvent(event),
+    );
+    worker.stdio[WORKER_EVENT_FD]?.on("data", parseEvents);
 
     // Capture stdout/stderr for debugging
     if (!this.options.verbose) {
@@ -114,26 +259,321 @@ export class WorkerPool {
 
     // Handle worker exit
     worker.on("close", (code, signal) => {
-      this.results.set(workerId, { code: code || 0, signal });
-      this.workers.delete(workerId);
-
-      if (this.options.verbose) {
-        const status =
-          code === 0 ? chalk.green("completed") : chalk.red("failed");
-        logger.debug(chalk.gray(`[${workerId}] ${status} (code: ${code})`));
-      }
+      this.recordExit(workerId, code || 0, signal);
     });
 
     // Handle worker errors
     worker.on("error", (error) => {
       logger.error(chalk.red(`[${workerId}] Error: ${error.message}`));
-      this.results.set(workerId, { code: 1, signal: null });
-      this.workers.delete(workerId);
+      this.recordExit(workerId, 1, null);
     });
 
     logger.info(chalk.gray(`[${workerId}] Started`));
   }
 
+  /**
+   * Start a single worker thread running the same worker loop
+   */
+  private startWorkerThread(workerId: string): void {
+    const worker = new Worker(WORKER_THREAD_SCRIPT, { name: workerId });
+
+    this.workers.set(workerId, worker);
+    this.initWorkerState(workerId);
+
+    worker.addEventListener("message", (event: MessageEvent) => {
+      const message = event.data as WorkerThreadMessage;
+      if (message.kind === "event") {
+        this.handleWorkerEvent(message.event);
+        return;
+      }
+
+      const done = message;
+
+      // Log captured output on failure, like piped process output
+      if (done.exitCode !== 0 && done.output) {
+        logger.error(chalk.red(`[${workerId}] Output:\n${done.output}`));
+      }
+
+      worker.terminate();
+      this.recordExit(workerId, done.exitCode, null);
+    });
+
+    // Uncaught errors inside the thread
+    worker.addEventListener("error", (event: ErrorEvent) => {
+      logger.error(chalk.red(`[${workerId}] Error: ${event.message}`));
+      worker.terminate();
+      this.recordExit(workerId, 1, null);
+    });
+
+    const start: WorkerThreadStart = {
+      searchTerm: this.searchTerm,
+      downloadDir: this.downloadDir,
+      workerId,
+      verbose: this.options.verbose || false,
+      nameTemplate: this.nameTemplate,
+    };
+    worker.postMessage(start);
+
+    logger.info(chalk.gray(`[${workerId}] Started (thread)`));
+  }
+
+  /**
+   * Start tracking the live state of a worker
+   */
+  private initWorkerState(workerId: string): void {
+    // A restarted worker keeps its counts
+    const previous = this.workerStates.get(workerId);
+    this.workerStates.set(workerId, {
+      workerId,
+      activity: "starting",
+      pdfName: null,
+      bytes: 0,
+      totalBytes: null,
+      completed: previous?.completed || 0,
+      failed: previous?.failed || 0,
+      skipped: previous?.skipped || 0,
+      lastError: previous?.lastError || null,
+    });
+  }
+
+  /**
+   * Apply a worker event to its live state and notify listeners
+   */
+  private handleWorkerEvent(event: WorkerEvent): void {
+    const state = this.workerStates.get(event.workerId);
+    if (!state) {
+      return;
+    }
+
+    switch (event.type) {
+      case "claimed":
+        state.activity = "downloading";
+        state.pdfName = event.pdfName;
+        state.bytes = 0;
+        state.totalBytes = event.fileSize || null;
+        break;
+      case "progress":
+        state.activity = "downloading";
+        state.bytes = event.bytes;
+        state.totalBytes = event.totalBytes;
+        break;
+      case "retrying":
+        state.activity = "retrying";
+        state.lastError = event.error;
+        break;
+      case "completed":
+        state.activity = "idle";
+        state.completed++;
+        state.pdfName = null;
+        break;
+      case "skipped":
+        state.activity = "idle";
+        state.skipped++;
+        state.pdfName = null;
+        break;
+      case "failed":
+        state.activity = "idle";
+        state.failed++;
+        state.lastError = event.error;
+        state.pdfName = null;
+        break;
+      case "released":
+        state.activity = "idle";
+        state.pdfName = null;
+        break;
+      case "paused":
+        state.activity = "paused";
+        state.pdfName = null;
+        break;
+      case "exiting":
+        state.activity = "exited";
+        state.pdfName = null;
+        break;
+    }
+
+    // Outcomes change the queue counts, refresh now instead of on next poll
+    if (
+      (event.type === "completed" || event.type === "failed") &&
+      this.options.onProgress
+    ) {
+      try {
+        this.options.onProgress(this.queue.getProgress());
+      } catch (error: any) {
+        logger.debug(chalk.gray(`Progress refresh skipped: ${error.message}`));
+      }
+    }
+
+    if (this.options.onWorkerEvent) {
+      this.options.onWorkerEvent(event, this.getWorkerStates());
+    }
+  }
+
+  /**
+   * Get the live state of every worker started by this pool
+   */
+  getWorkerStates(): WorkerState[] {
+    return Array.from(this.workerStates.values());
+  }
+
+  /**
+   * Record a finished worker
+   */
+  private recordExit(
+    workerId: string,
+    code: number,
+    signal: string | null,
+  ): void {
+    this.results.set(workerId, { code, signal });
+    this.workers.delete(workerId);
+
+    const state = this.workerStates.get(workerId);
+    if (state) {
+      state.activity = "exited";
+    }
+
+    if (this.options.verbose) {
+      const status =
+        code === 0 ? chalk.green("completed") : chalk.red("failed");
+      logger.debug(chalk.gray(`[${workerId}] ${status} (code: ${code})`));
+    }
+
+    this.scheduleRestart(workerId, code, signal);
+  }
+
+  /**
+   * Schedule a restart for a worker that exited while work remains
+   */
+  private scheduleRestart(
+    workerId: string,
+    code: number,
+    signal: string | null,
+  ): void {
+    if (this.terminating) {
+      return;
+    }
+
+    // Scaled down on purpose (--workers auto)
+    if (getWorkerNumber(workerId) > this.workerCount) {
+      this.scaledDownWorkers.add(workerId);
+      return;
+    }
+
+    let workRemains: boolean;
+    try {
+      workRemains = !this.queue.isComplete();
+    } catch (error: any) {
+      logger.debug(chalk.gray(`Restart check skipped: ${error.message}`));
+      return;
+    }
+    if (!workRemains) {
+      return;
+    }
+
+    const restarts = this.restartCounts.get(workerId) || 0;
+    if (!this.canRestart(workerId)) {
+      if (!this.budgetWarned) {
+        this.budgetWarned = true;
+        logger.warn(
+          chalk.yellow(
+            `[${workerId}] Exited early, restart budget used up (${this.totalRestarts} restarts)`,
+          ),
+        );
+      }
+      return;
+    }
+
+    const delay = getRestartDelay(restarts);
+    this.scheduledRestarts.set(workerId, Date.now() + delay);
+
+    const cause = signal ? `signal ${signal}` : `code ${code}`;
+    logger.warn(
+      chalk.yellow(
+        `[${workerId}] Exited early (${cause}), restarting in ${Math.round(delay / 1000)}s (${restarts + 1}/${MAX_RESTARTS_PER_WORKER})`,
+      ),
+    );
+  }
+
+  /**
+   * Restart workers whose backoff has elapsed
+   */
+  private runScheduledRestarts(): void {
+    if (this.scheduledRestarts.size === 0) {
+      return;
+    }
+
+    // Another worker may have finished the remaining work meanwhile
+    if (this.queue.isComplete()) {
+      this.scheduledRestarts.clear();
+      return;
+    }
+
+    const now = Date.now();
+    for (const [workerId, restartAt] of this.scheduledRestarts) {
+      if (restartAt > now) {
+        continue;
+      }
+
+      this.scheduledRestarts.delete(workerId);
+      if (
+        this.workers.has(workerId) ||
+        getWorkerNumber(workerId) > this.workerCount
+      ) {
+        continue;
+      }
+
+      this.countRestart(workerId);
+      this.startWorker(workerId);
+    }
+  }
+
+  /**
+   * Whether a worker may be restarted (again), counting scheduled restarts
+   */
+  private canRestart(workerId: string): boolean {
+    return hasRestartBudget(
+      this.restartCounts.get(workerId) || 0,
+      this.totalRestarts + this.scheduledRestarts.size,
+    );
+  }
+
+  /**
+   * Count a restart against the per-worker and total budget
+   */
+  private countRestart(workerId: string): void {
+    this.restartCounts.set(
+      workerId,
+      (this.restartCounts.get(workerId) || 0) + 1,
+    );
+    this.totalRestarts++;
+  }
+
+  /**
+   * Announce circuit breaker changes (workers log them in their own output)
+   */
+  private reportBreakerState(): void {
+    const breaker = this.breaker.getState();
+    if (breaker.state === this.breakerState) {
+      return;
+    }
+
+    if (breaker.state === "closed") {
+      logger.info(chalk.green("Circuit breaker closed, downloads resumed"));
+    } else if (this.breakerState === "closed") {
+      const probeIn = Math.max(0, (breaker.nextProbeAt ?? 0) - Date.now());
+      logger.warn(
+        chalk.yellow(
+          `Circuit breaker open: too many failures, downloads paused (probing in ${Math.round(probeIn / 1000)}s)`,
+        ),
+      );
+    } else if (breaker.state === "half-open") {
+      logger.info(
+        chalk.gray(`Circuit breaker: ${breaker.probeWorkerId} probing`),
+      );
+    }
+
+    this.breakerState = breaker.state;
+  }
+
   /**
    * Wait for all workers to complete
    */
@@ -142,10 +582,38 @@ export class WorkerPool {
       logger.debug(chalk.blue("Waiting for workers to complete..."));
     }
 
-    // Poll until all workers are done
-    while (this.workers.size > 0) {
+    let lastScalingAt = Date.now();
+
+    // Poll until all workers are done and no restart is pending
+    while (this.workers.size > 0 || this.scheduledRestarts.size > 0) {
       await sleep(1000);
 
+      try {
+        this.runScheduledRestarts();
+      } catch (error: any) {
+        logger.debug(chalk.gray(`Worker restart skipped: ${error.message}`));
+      }
+
+      try {
+        this.reportBreakerState();
+      } catch (error: any) {
+        logger.debug(
+          chalk.gray(`Circuit breaker check skipped: ${error.message}`),
+        );
+      }
+
+      if (
+        this.autoScaler &&
+        Date.now() - lastScalingAt >= SCALING_INTERVAL_MS
+      ) {
+        lastScalingAt = Date.now();
+        try {
+          this.applyScaling();
+        } catch (error: any) {
+          logger.debug(chalk.gray(`Auto-scaling skipped: ${error.message}`));
+        }
+      }
+
       // Show progress
       const progress = this.queue.getProgress();
       const activeWorkers = this.workers.size;
@@ -169,9 +637,10 @@ export class WorkerPool {
 
     // Compile results
     const result: WorkerPoolResult = {
-      totalWorkers: this.workerCount,
+      totalWorkers: this.startedWorkers.size,
       completedWorkers: 0,
       failedWorkers: 0,
+      restarts: this.totalRestarts,
     };
 
     for (const [workerId, workerResult] of this.results) {
@@ -185,7 +654,7 @@ export class WorkerPool {
     if (this.options.verbose) {
       logger.debug(
         chalk.green(
-          `✓ All workers completed: ${result.completedWorkers} succeeded, ${result.failedWorkers} failed`,
+          `✓ All workers completed: ${result.completedWorkers} succeeded, ${result.failedWorkers} failed, ${result.restarts} restarts`,
         ),
       );
     }
@@ -201,8 +670,17 @@ export class WorkerPool {
       logger.debug(chalk.yellow("Terminating all workers..."));
     }
 
+    this.terminating = true;
+    this.scheduledRestarts.clear();
+
     for (const [workerId, worker] of this.workers) {
-      worker.kill("SIGTERM");
+      if (worker instanceof Worker) {
+        // Threads share this process; there is nothing to signal
+        worker.terminate();
+        this.recordExit(workerId, 1, "SIGTERM");
+      } else {
+        worker.kill("SIGTERM");
+      }
     }
 
     // Wait for workers to exit
@@ -215,7 +693,7 @@ export class WorkerPool {
 
     // Force kill any remaining workers
     for (const [workerId, worker] of this.workers) {
-      if (!worker.killed) {
+      if (!(worker instanceof Worker) && !worker.killed) {
         worker.kill("SIGKILL");
       }
     }
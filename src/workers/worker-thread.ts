@@ -0,0 +1,74 @@
+/**
+ * Worker Thread Entry
+ *
+ * Runs the same worker loop as worker.ts inside a Bun Worker thread
+ * (`--isolation thread`). The pool posts a WorkerThreadStart message; the
+ * thread posts WorkerThreadEvent messages while it works and a
+ * WorkerThreadDone message once the queue is drained.
+ *
+ * Modules are imported after the console is redirected, so in non-verbose
+ * mode worker output is captured instead of drawing over the progress bars.
+ */
+
+import type {
+  WorkerThreadDone,
+  WorkerThreadEvent,
+  WorkerThreadStart,
+} from "./types.js";
+
+declare var self: Worker;
+
+self.onmessage = async (event: MessageEvent<WorkerThreadStart>) => {
+  const start = event.data;
+  let output = "";
+
+  // Same as piped stdout in process mode: stderr still reaches the terminal
+  if (!start.verbose) {
+    const capture = (...args: unknown[]) => {
+      output += args.map((arg) => String(arg)).join(" ") + "\n";
+    };
+    console.log = capture;
+    console.warn = capture;
+  }
+
+  const { runWorker } = await import("./worker.js");
+  const { closeBrowser } = await import("../browserless/browser-client.js");
+
+  let done: WorkerThreadDone;
+  try {
+    const result = await runWorker(
+      start.searchTerm,
+      start.downloadDir,
+      start.workerId,
+      start.verbose,
+      start.nameTemplate,
+      (event) =>
+        self.postMessage({ kind: "event", event } as WorkerThreadEvent),
+    );
+    // Same exit code rule as worker.ts in process mode
+    done = {
+      kind: "done",
+      result,
+      output,
+      exitCode: result.pdfsFailed > 0 ? 1 : 0,
+    };
+  } catch (error: any) {
+    done = {
+      kind: "done",
+      result: {
+        workerId: start.workerId,
+        pdfsProcessed: 0,
+        pdfsSucceeded: 0,
+        pdfsFailed: 0,
+        errors: [`Worker error: ${error.message}`],
+      },
+      output: output + `Worker error: ${error.message}\n`,
+      exitCode: 1,
+    };
+  }
+
+  // Each thread has its own browser instance; close it before the pool
+  // terminates the thread
+  await closeBrowser();
+  self.postMessage(done);
+};
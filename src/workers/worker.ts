@@ -13,19 +13,59 @@
  */
 
 import { parseArgs } from "util";
+import fs from "fs";
 import path from "path";
-import { TaskQueue } from "./task-queue.js";
-import { downloadPdf } from "../browserless/browser-client.js";
-import type { WorkerOptions, WorkerResult } from "./types.js";
+import { LEASE_HEARTBEAT_MS, TaskQueue } from "./task-queue.js";
+import { DocumentCatalog } from "./catalog.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { CircuitBreaker } from "./circuit-breaker.js";
+import { getWorkerNumber } from "./auto-scaler.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  classifyError,
+  getRetryDelay,
+  loadRetryPolicy,
+} from "./retry-policy.js";
+import { createFdEventSink, throttleProgressEvents } from "./worker-events.js";
+import {
+  downloadPdf,
+  type PdfDownloadResult,
+} from "../browserless/browser-client.js";
+import type {
+  PdfTaskRecord,
+  RetryPolicy,
+  WorkerEventSink,
+  WorkerOptions,
+  WorkerResult,
+} from "./types.js";
 import chalk from "chalk";
 import { logger, setVerboseMode } from "../utils/logger";
-import type { PrefixMode } from "../types/enums.js";
+import { findExistingDownload } from "../utils/helpers";
+import { getFilesDir, getMediaDir } from "../utils/layout.js";
+import { getMediaType } from "../utils/media.js";
+import {
+  DEFAULT_NAME_TEMPLATE,
+  parseNameTemplate,
+  renderFileName,
+  type NameFields,
+} from "../utils/naming.js";
 
 function isDatabaseLocked(error: unknown): boolean {
   return error instanceof Error && /database is locked/i.test(error.message);
 }
 
-const PREFIX_MODES: PrefixMode[] = ["none", "page", "custom"];
+/**
+ * Stop renewing a lease once a download made no progress for this long, so
+ * hung workers get reclaimed (direct downloads abort after 60s without data,
+ * the browser fallback can sit on a challenge for a few minutes)
+ */
+const MAX_IDLE_MS = 10 * 60 * 1000;
+
+/** How often a paused worker checks the circuit breaker */
+const BREAKER_POLL_MS = 1000;
+
+/** Minimum time between download progress events */
+const PROGRESS_EVENT_INTERVAL_MS = 250;
 
 async function withDbLockRetry<T>(
   workerId: string,
@@ -58,27 +98,193 @@ async function withDbLockRetry<T>(
   }
 }
 
+/**
+ * Lease of a task being downloaded, renewed in the background
+ */
+type LeaseHeartbeat = {
+  // Aborted once another worker took the task over
+  signal: AbortSignal;
+  // Report download progress; the lease is only renewed while it moves
+  touch: () => void;
+  stop: () => void;
+};
+
+/**
+ * Renew the lease on a task (and the worker's download slot) while it is
+ * being downloaded
+ * Renewal continues as long as the download makes progress. When the lease
+ * is lost anyway, the signal is aborted so the download stops writing to a
+ * file the new owner is using.
+ */
+function startLeaseHeartbeat(
+  queue: TaskQueue,
+  limiter: RateLimiter,
+  taskId: string,
+  workerId: string,
+  timing = { intervalMs: LEASE_HEARTBEAT_MS, maxIdleMs: MAX_IDLE_MS },
+): LeaseHeartbeat {
+  const controller = new AbortController();
+  let lastActivity = Date.now();
+
+  const timer = setInterval(() => {
+    if (Date.now() - lastActivity > timing.maxIdleMs) {
+      logger.warn(
+        chalk.yellow(
+          `[${workerId}] Task ${taskId} made no progress, letting its lease expire`,
+        ),
+      );
+      clearInterval(timer);
+      return;
+    }
+
+    try {
+      if (!queue.renewLease(taskId, workerId)) {
+        logger.warn(
+          chalk.yellow(
+            `[${workerId}] Lost lease on ${taskId} (reclaimed by another worker)`,
+          ),
+        );
+        clearInterval(timer);
+        controller.abort(new Error("Lease lost"));
+        return;
+      }
+      limiter.renewDownloadSlot(workerId);
+    } catch (error: any) {
+      // A missed heartbeat is fine, the next one renews the lease
+      logger.debug(
+        chalk.yellow(`[${workerId}] Lease heartbeat failed: ${error.message}`),
+      );
+    }
+  }, timing.intervalMs);
+
+  return {
+    signal: controller.signal,
+    touch: () => {
+      lastActivity = Date.now();
+    },
+    stop: () => clearInterval(timer),
+  };
+}
+
+/**
+ * Update the shared catalog; the queue stays the source of truth for this
+ * run, so catalog errors are logged and ignored
+ */
+function recordInCatalog(workerId: string, action: () => void): void {
+  try {
+    action();
+  } catch (error: any) {
+    logger.warn(
+      chalk.yellow(`[${workerId}] Catalog update failed: ${error.message}`),
+    );
+  }
+}
+
+/**
+ * Record a kept partial download; without the record the next attempt
+ * simply starts from zero, so errors are logged and ignored
+ */
+function recordPartial(workerId: string, action: () => void): void {
+  try {
+    action();
+  } catch (error: any) {
+    logger.warn(
+      chalk.yellow(
+        `[${workerId}] Partial download not recorded: ${error.message}`,
+      ),
+    );
+  }
+}
+
+/**
+ * Find the file of a task already on disk (same document and size, named by
+ * the name template, files or media folder) and rename it to the target
+ * name, like sequential mode does. Returns the path relative to the search
+ * folder and the size on disk, or null if it has to be downloaded.
+ */
+function useExistingFile(
+  workerId: string,
+  pdf: PdfTaskRecord,
+  downloadDir: string,
+  nameTemplate: string,
+  nameFields: NameFields,
+): { fileName: string; bytes: number } | null {
+  const pdfOutputDir = getFilesDir(downloadDir, nameFields.searchTerm);
+
+  try {
+    const existing = findExistingDownload(
+      downloadDir,
+      nameTemplate,
+      nameFields,
+    );
+    if (!existing) {
+      return null;
+    }
+
+    let filePath = existing.filePath;
+    if (existing.needsRename) {
+      filePath = path.join(path.dirname(filePath), existing.targetName);
+      fs.renameSync(existing.filePath, filePath);
+      logger.info(
+        chalk.gray(
+          `[${workerId}] Renamed: ${path.basename(existing.filePath)} → ${existing.targetName}`,
+        ),
+      );
+    }
+    return {
+      fileName: path.relative(pdfOutputDir, filePath),
+      bytes: existing.bytes,
+    };
+  } catch (error: any) {
+    // Downloading again is always safe
+    logger.debug(
+      chalk.yellow(
+        `[${workerId}] Existing file check failed for ${pdf.pdfName}: ${error.message}`,
+      ),
+    );
+  }
+
+  return null;
+}
+
 /**
  * Main worker function
+ * Live events (claims, progress, retries, outcomes) are sent to `onEvent`
  */
 async function runWorker(
   searchTerm: string,
   downloadDir: string,
   workerId: string,
   verbose: boolean,
-  prefixMode: PrefixMode,
-  customPrefix?: string,
+  nameTemplate: string,
+  onEvent: WorkerEventSink = () => {},
 ): Promise<WorkerResult> {
   setVerboseMode(verbose);
+  const emit = throttleProgressEvents(onEvent, PROGRESS_EVENT_INTERVAL_MS);
   logger.debug(chalk.gray(`[${workerId}] Initializing...`));
 
   let queue: TaskQueue;
+  let catalog: DocumentCatalog;
+  let limiter: RateLimiter;
+  let breaker: CircuitBreaker;
+  let retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
   try {
     queue = new TaskQueue(downloadDir, searchTerm);
+    catalog = new DocumentCatalog(downloadDir);
+    limiter = new RateLimiter(queue);
+    breaker = new CircuitBreaker(queue);
+    retryPolicy = loadRetryPolicy(queue);
   } catch (error: any) {
     logger.error(
       chalk.red(`[${workerId}] Failed to create queue: ${error.message}`),
     );
+    emit({
+      type: "exiting",
+      workerId,
+      reason: `Queue creation failed: ${error.message}`,
+      pdfsSucceeded: 0,
+      pdfsFailed: 0,
+    });
     return {
       workerId,
       pdfsProcessed: 0,
@@ -97,12 +303,57 @@ async function runWorker(
   };
 
   let consecutiveErrors = 0;
+  let exitReason = "No more work";
+  let paused = false;
 
   try {
     logger.debug(chalk.gray(`[${workerId}] Started`));
 
     while (true) {
-      // 1. Claim next PDF from queue
+      // The pool lowered the worker count (--workers auto)
+      const workerLimit = await withDbLockRetry(
+        workerId,
+        () => queue.getWorkerLimit(),
+        "read worker limit",
+      );
+      if (workerLimit !== null && getWorkerNumber(workerId) > workerLimit) {
+        logger.info(chalk.gray(`[${workerId}] Scaled down, exiting`));
+        exitReason = "Scaled down";
+        break;
+      }
+
+      // The portal is blocking or down: wait until the breaker lets us
+      // claim, or probe with a single download once the cooldown is over
+      const permission = await withDbLockRetry(
+        workerId,
+        () => breaker.checkClaim(workerId),
+        "check circuit breaker",
+      );
+      if (permission === "wait") {
+        if (!paused) {
+          paused = true;
+          logger.info(
+            chalk.yellow(`[${workerId}] Circuit breaker open, pausing`),
+          );
+          emit({ type: "paused", workerId, reason: "Circuit breaker open" });
+        }
+        if (queue.isComplete()) {
+          logger.info(chalk.gray(`[${workerId}] No more work, exiting`));
+          break;
+        }
+        await sleep(BREAKER_POLL_MS);
+        continue;
+      }
+      if (paused) {
+        // Failures from before the pause say nothing about this worker
+        paused = false;
+        consecutiveErrors = 0;
+      }
+      const isProbe = permission === "probe";
+
+      // 1. Wait for a download slot, then claim next PDF from queue
+      await limiter.acquireDownloadSlot(workerId);
+
       const pdf = await withDbLockRetry(
         workerId,
         () => queue.claimNextPdf(workerId),
@@ -110,11 +361,25 @@ async function runWorker(
       );
 
       if (!pdf) {
-        // No PDF available, check if coordinator is done
-        const isComplete = queue.getMetadata("json_fetch_complete");
+        await withDbLockRetry(
+          workerId,
+          () => limiter.releaseDownloadSlot(workerId),
+          "release slot",
+        );
+        if (isProbe) {
+          await withDbLockRetry(
+            workerId,
+            () => breaker.abandonProbe(workerId),
+            "abandon probe",
+          );
+        }
+
+        // No PDF available, check if coordinator is done and no other
+        // worker still holds a lease that could expire and need reclaiming
+        const isComplete = queue.isComplete();
         const progress = queue.getProgress();
 
-        if (isComplete === "true") {
+        if (isComplete) {
           // All work is done
           logger.info(
             chalk.gray(
@@ -124,85 +389,342 @@ async function runWorker(
           break;
         }
 
-        // Coordinator still fetching JSON, wait and retry
+        // Coordinator still fetching JSON or leases outstanding, wait and retry
         await sleep(500);
         continue;
       }
 
       result.pdfsProcessed++;
+      emit({
+        type: "claimed",
+        workerId,
+        taskId: pdf.id,
+        pdfName: pdf.pdfName,
+        pageNumber: pdf.pageNumber,
+        fileSize: pdf.fileSize,
+      });
 
       logger.info(
         chalk.gray(
-          `[${workerId}] Processing: ${pdf.pdfName} from page ${pdf.pageNumber}`,
+          `[${workerId}] ${isProbe ? "Probing with" : "Processing"}: ${pdf.pdfName} from page ${pdf.pageNumber}`,
         ),
       );
 
-      // 2. Download PDF with retry logic
-      let success = false;
-      let lastError = "";
+      const pdfOutputDir = getFilesDir(downloadDir, searchTerm);
+      const nameFields: NameFields = {
+        fileName: pdf.pdfName,
+        pageNumber: pdf.pageNumber,
+        searchTerm,
+        index: pdf.hitIndex,
+        fileSize: pdf.fileSize,
+        source: pdf.source,
+      };
+      const targetName = renderFileName(nameTemplate, nameFields);
+
+      // 2. Skip files already on disk (renamed to the target name)
+      const existing = useExistingFile(
+        workerId,
+        pdf,
+        downloadDir,
+        nameTemplate,
+        nameFields,
+      );
+      if (existing) {
+        await withDbLockRetry(
+          workerId,
+          () => limiter.releaseDownloadSlot(workerId),
+          "release slot",
+        );
+        if (isProbe) {
+          // Nothing was asked of the portal, let the next claim probe
+          await withDbLockRetry(
+            workerId,
+            () => breaker.abandonProbe(workerId),
+            "abandon probe",
+          );
+        }
+        await withDbLockRetry(
+          workerId,
+          () =>
+            queue.markSkippedExisting(
+              pdf.id,
+              existing.fileName,
+              existing.bytes,
+              getMediaType(existing.fileName),
+            ),
+          "mark skipped",
+        );
+        result.pdfsSucceeded++;
+        emit({
+          type: "skipped",
+          workerId,
+          taskId: pdf.id,
+          fileName: existing.fileName,
+        });
+        recordInCatalog(workerId, () =>
+          catalog.markDownloaded(
+            pdf.pdfUrl,
+            path.join(pdfOutputDir, existing.fileName),
+            existing.bytes,
+          ),
+        );
 
-      for (let attempt = 1; attempt <= 3; attempt++) {
-        try {
-          // Download PDF
-          const pdfOutputDir = path.join(downloadDir, "files", searchTerm);
+        logger.debug(
+          chalk.gray(
+            `[${workerId}] Skipped (already exists): ${existing.fileName}`,
+          ),
+        );
+        continue;
+      }
 
-          const prefix =
-            prefixMode === "custom"
-              ? customPrefix
-              : prefixMode === "page"
-                ? String(pdf.pageNumber)
-                : undefined;
+      // 3. Download PDF with retry logic, keeping the lease alive
+      let download: PdfDownloadResult | null = null;
+      let lastError = "";
+      const downloadStartedAt = Date.now();
+      const lease = startLeaseHeartbeat(queue, limiter, pdf.id, workerId);
+
+      let partial = pdf.partial;
+
+      // A probe is a single request
+      const maxAttempts = isProbe ? 1 : retryPolicy.maxAttempts;
+      try {
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+          try {
+            // Shared requests-per-second budget across all workers
+            await limiter.acquireRequest();
+            lease.touch();
+
+            download = await downloadPdf(pdf.pdfUrl, pdfOutputDir, targetName, {
+              onProgress: (bytes, totalBytes) => {
+                lease.touch();
+                emit({
+                  type: "progress",
+                  workerId,
+                  taskId: pdf.id,
+                  bytes,
+                  totalBytes: totalBytes ?? (pdf.fileSize || null),
+                });
+              },
+              // Retries and later runs continue where this one stopped
+              resumeFrom: partial,
+              onPartial: (kept) => {
+                partial = kept;
+                recordPartial(workerId, () => queue.savePartial(pdf.id, kept));
+              },
+              expectedSize: pdf.fileSize,
+              // Videos, audio and images go to their own subfolders
+              getOutputDir: (mediaType) =>
+                getMediaDir(downloadDir, searchTerm, mediaType),
+              signal: lease.signal,
+            });
+
+            consecutiveErrors = 0;
+            break;
+          } catch (error: any) {
+            lastError = error.message || "Unknown error";
+
+            // The task belongs to another worker now
+            if (lease.signal.aborted) {
+              break;
+            }
+
+            logger.debug(
+              chalk.yellow(
+                `[${workerId}] Attempt ${attempt}/${maxAttempts} failed for ${pdf.pdfName}: ${lastError}`,
+              ),
+            );
+
+            // Retrying a 404 or an invalid PDF gives the same result
+            if (classifyError(lastError) === "permanent") {
+              logger.debug(
+                chalk.yellow(
+                  `[${workerId}] Permanent error for ${pdf.pdfName}, not retrying`,
+                ),
+              );
+              break;
+            }
+
+            // Another worker opened the breaker, stop spending attempts
+            if (breaker.isOpen()) {
+              break;
+            }
+
+            if (attempt < maxAttempts) {
+              const delayMs = getRetryDelay(retryPolicy, attempt);
+              emit({
+                type: "retrying",
+                workerId,
+                taskId: pdf.id,
+                attempt,
+                maxAttempts,
+                error: lastError,
+                delayMs,
+              });
+              await sleep(delayMs);
+            }
+          }
+        }
+      } finally {
+        lease.stop();
+      }
+      await withDbLockRetry(
+        workerId,
+        () => limiter.releaseDownloadSlot(workerId),
+        "release slot",
+      );
 
-          await downloadPdf(pdf.pdfUrl, pdfOutputDir, pdf.pdfName, prefix);
+      // Another worker reclaimed the task mid-download; the download stopped
+      // and left the `.part` file to the new owner
+      if (lease.signal.aborted && !download) {
+        if (isProbe) {
+          await withDbLockRetry(
+            workerId,
+            () => breaker.abandonProbe(workerId),
+            "abandon probe",
+          );
+        }
+        emit({
+          type: "released",
+          workerId,
+          taskId: pdf.id,
+          reason: "Lease lost",
+        });
+        logger.warn(
+          chalk.yellow(
+            `[${workerId}] Lost lease on ${pdf.pdfName}, download left to its new owner`,
+          ),
+        );
+        continue;
+      }
 
-          success = true;
-          consecutiveErrors = 0;
-          break;
-        } catch (error: any) {
-          lastError = error.message || "Unknown error";
+      // 4. Report a probe: any answer from the portal, even a 404, means it
+      // is reachable again
+      const errorClass = download ? null : classifyError(lastError);
+      if (isProbe) {
+        const reachable = errorClass !== "transient";
+        const requeued = await withDbLockRetry(
+          workerId,
+          () => breaker.recordProbe(workerId, reachable),
+          "report probe",
+        );
+        logger.info(
+          reachable
+            ? chalk.green(
+                `[${workerId}] Probe succeeded, circuit breaker closed (${requeued} PDFs requeued)`,
+              )
+            : chalk.yellow(
+                `[${workerId}] Probe failed, circuit breaker stays open`,
+              ),
+        );
+      }
 
-          logger.debug(
+      // 5. Update queue status
+      if (download) {
+        const completed = download;
+        const durationMs = Date.now() - downloadStartedAt;
+        const owned = await withDbLockRetry(
+          workerId,
+          () =>
+            queue.markComplete(pdf.id, workerId, {
+              sha256: completed.sha256,
+              bytes: completed.bytes,
+              finalName: path.relative(pdfOutputDir, completed.filePath),
+              contentType: completed.contentType,
+              durationMs,
+              mediaType: completed.mediaType,
+            }),
+          "mark complete",
+        );
+        if (owned) {
+          result.pdfsSucceeded++;
+          emit({
+            type: "completed",
+            workerId,
+            taskId: pdf.id,
+            bytes: completed.bytes,
+            durationMs,
+          });
+        } else {
+          // The lease was lost just as the file was saved; the new owner
+          // completes the task, skipping it if it already sees this file or
+          // downloading it again
+          emit({
+            type: "released",
+            workerId,
+            taskId: pdf.id,
+            reason: "Lease lost",
+          });
+          logger.warn(
             chalk.yellow(
-              `[${workerId}] Attempt ${attempt}/3 failed for ${pdf.pdfName}: ${lastError}`,
+              `[${workerId}] Lost lease on ${pdf.pdfName}, completion left to its new owner`,
             ),
           );
-
-          if (attempt < 3) {
-            // Exponential backoff: 2s, 4s, 6s
-            await sleep(2000 * attempt);
-          }
         }
-      }
+        recordInCatalog(workerId, () =>
+          catalog.markDownloaded(
+            pdf.pdfUrl,
+            completed.filePath,
+            completed.bytes,
+          ),
+        );
 
-      // 3. Update queue status
-      if (success) {
+        logger.debug(chalk.green(`[${workerId}] Completed: ${pdf.pdfName}`));
+      } else if (errorClass === "transient" && breaker.isOpen()) {
+        // Failed because of the outage, download it once the breaker closes
         await withDbLockRetry(
           workerId,
-          () => queue.markComplete(pdf.id),
-          "mark complete",
+          () => queue.returnToPending(pdf.id, workerId),
+          "return to pending",
+        );
+        emit({
+          type: "released",
+          workerId,
+          taskId: pdf.id,
+          reason: "Circuit breaker open",
+        });
+        logger.info(
+          chalk.yellow(
+            `[${workerId}] Circuit breaker open, returned ${pdf.pdfName} to pending`,
+          ),
         );
-        result.pdfsSucceeded++;
-
-        logger.debug(chalk.green(`[${workerId}] Completed: ${pdf.pdfName}`));
       } else {
         await withDbLockRetry(
           workerId,
-          () => queue.markFailed(pdf.id, lastError),
+          () => queue.markFailed(pdf.id, lastError, workerId),
           "mark failed",
         );
         result.pdfsFailed++;
         result.errors.push(`${pdf.pdfName}: ${lastError}`);
+        emit({ type: "failed", workerId, taskId: pdf.id, error: lastError });
+        recordInCatalog(workerId, () => catalog.markFailed(pdf.pdfUrl));
         consecutiveErrors++;
 
         logger.error(
           chalk.red(`[${workerId}] Failed: ${pdf.pdfName} - ${lastError}`),
         );
 
-        // Safety valve: if too many consecutive errors, worker exits
-        if (consecutiveErrors >= 5) {
+        const opened =
+          errorClass === "transient" &&
+          (await withDbLockRetry(
+            workerId,
+            () => breaker.recordFailure(),
+            "update circuit breaker",
+          ));
+        if (opened) {
+          logger.warn(
+            chalk.yellow(
+              `[${workerId}] Failure rate too high, circuit breaker opened`,
+            ),
+          );
+        }
+
+        // Safety valve: if too many consecutive errors, worker exits (not
+        // while the breaker is open, the pause handles that)
+        if (consecutiveErrors >= 5 && !breaker.isOpen()) {
           logger.error(
             chalk.red(`[${workerId}] Too many consecutive failures, exiting`),
           );
+          exitReason = "Too many consecutive failures";
           break;
         }
       }
@@ -215,12 +737,20 @@ async function runWorker(
         ),
       );
       result.errors.push(`Queue busy: ${error.message}`);
+      exitReason = `Queue busy: ${error.message}`;
     } else {
       logger.error(chalk.red(`[${workerId}] Fatal error: ${error.message}`));
       result.errors.push(`Fatal: ${error.message}`);
+      exitReason = `Fatal: ${error.message}`;
     }
   } finally {
+    try {
+      limiter.releaseDownloadSlot(workerId);
+    } catch {
+      // Slot expires on its own
+    }
     queue.close();
+    catalog.close();
   }
 
   logger.debug(
@@ -228,6 +758,13 @@ async function runWorker(
       `[${workerId}] Finished: ${result.pdfsSucceeded} succeeded, ${result.pdfsFailed} failed`,
     ),
   );
+  emit({
+    type: "exiting",
+    workerId,
+    reason: exitReason,
+    pdfsSucceeded: result.pdfsSucceeded,
+    pdfsFailed: result.pdfsFailed,
+  });
 
   return result;
 }
@@ -248,8 +785,8 @@ if (import.meta.main) {
       search: { type: "string", short: "s" },
       directory: { type: "string", short: "d" },
       "worker-id": { type: "string", default: "worker-1" },
-      "prefix-mode": { type: "string", default: "page" },
-      prefix: { type: "string" },
+      "name-template": { type: "string", default: DEFAULT_NAME_TEMPLATE },
+      "events-fd": { type: "string" },
       verbose: { type: "boolean", short: "v", default: false },
       help: { type: "boolean", short: "h", default: false },
     },
@@ -268,8 +805,8 @@ Options:
   -s, --search <term>      Search term (required)
   -d, --directory <path>   Download directory (required)
   --worker-id <id>         Worker identifier for logging
-  --prefix-mode <mode>     Prefix mode (none, page, custom)
-  --prefix <string>        Custom prefix (requires --prefix-mode custom)
+  --name-template <text>   File name template (default: {name})
+  --events-fd <fd>         Write JSON-line progress events to this fd (set by the pool)
   -v, --verbose           Enable verbose output
   -h, --help              Show this help message
 `);
@@ -285,31 +822,28 @@ Options:
   const downloadDir = values.directory;
   const workerId = values["worker-id"] || "worker-1";
   const verbose = values.verbose || false;
-  const prefixMode = (values["prefix-mode"] || "page") as PrefixMode;
-  const customPrefix = values.prefix;
-
-  if (!PREFIX_MODES.includes(prefixMode)) {
-    logger.error(
-      chalk.red("Error: --prefix-mode must be one of: none, page, custom"),
-    );
-    process.exit(1);
-  }
-
-  if (prefixMode === "custom" && !customPrefix) {
-    logger.error(
-      chalk.red("Error: --prefix is required when --prefix-mode is custom"),
+  let nameTemplate: string;
+  try {
+    nameTemplate = parseNameTemplate(
+      values["name-template"] || DEFAULT_NAME_TEMPLATE,
     );
+  } catch (error: any) {
+    logger.error(chalk.red(`Error: ${error.message}`));
     process.exit(1);
   }
   setVerboseMode(verbose);
 
+  const eventsFd = values["events-fd"]
+    ? parseInt(values["events-fd"], 10)
+    : undefined;
+
   runWorker(
     searchTerm,
     downloadDir,
     workerId,
     verbose,
-    prefixMode,
-    customPrefix,
+    nameTemplate,
+    eventsFd !== undefined ? createFdEventSink(eventsFd) : undefined,
   )
     .then((result) => {
       // Exit with error code if any PDFs failed
@@ -321,4 +855,4 @@ Options:
     });
 }
 
-export { runWorker };
+export { runWorker, startLeaseHeartbeat };
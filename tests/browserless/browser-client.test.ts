@@ -0,0 +1,317 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createHash } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  downloadPdfDirect,
+  finalizePartFile,
+} from "../../src/browserless/browser-client.ts";
+import type { PartialDownload } from "../../src/workers/types.ts";
+
+const PDF = Buffer.concat([
+  Buffer.from("%PDF-1.7\n"),
+  Buffer.alloc(991, 65),
+  Buffer.from("%%EOF"),
+]);
+const ETAG = '"v1"';
+
+let downloadDir: string;
+let server: ReturnType<typeof Bun.serve>;
+let respond: (request: Request) => Response;
+let requests: Request[];
+
+/** URL of a file on the fixture server */
+function url(name: string): string {
+  return `http://localhost:${server.port}/${name}`;
+}
+
+/** Serve a body in full, or the requested range of it if `ranges` is set */
+function serveFile(
+  body: Buffer<ArrayBuffer>,
+  { ranges = true, contentType = "application/pdf" } = {},
+): (request: Request) => Response {
+  return (request) => {
+    const range = request.headers.get("range")?.match(/^bytes=(\d+)-$/);
+    const headers = { "Content-Type": contentType, ETag: ETAG };
+
+    if (ranges && range && request.headers.get("if-range") === ETAG) {
+      const start = parseInt(range[1]!, 10);
+      return new Response(body.subarray(start), {
+        status: 206,
+        headers: {
+          ...headers,
+          "Content-Range": `bytes ${start}-${body.length - 1}/${body.length}`,
+        },
+      });
+    }
+    return new Response(body, { headers });
+  };
+}
+
+/** Leave the first bytes of the PDF in a `.part` file, as a failed download */
+function keepPart(bytes: number, garbage = 0): PartialDownload {
+  fs.writeFileSync(
+    path.join(downloadDir, "a.pdf.part"),
+    Buffer.concat([PDF.subarray(0, bytes), Buffer.alloc(garbage, 66)]),
+  );
+  return { partName: "a.pdf.part", bytes, validator: ETAG };
+}
+
+function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+beforeEach(() => {
+  downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-download-"));
+  requests = [];
+  respond = serveFile(PDF);
+  server = Bun.serve({
+    port: 0,
+    fetch: (request) => {
+      requests.push(request);
+      return respond(request);
+    },
+  });
+});
+
+afterEach(() => {
+  server.stop(true);
+  fs.rmSync(downloadDir, { recursive: true, force: true });
+});
+
+describe("downloadPdfDirect", () => {
+  test("streams the file to a `.part` file and renames it when done", async () => {
+    const progress: number[] = [];
+
+    const result = await downloadPdfDirect(
+      url("a.pdf"),
+      path.join(downloadDir, "a.pdf"),
+      { onProgress: (bytes) => progress.push(bytes) },
+    );
+
+    expect(result).toMatchObject({
+      filePath: path.join(downloadDir, "a.pdf"),
+      fileName: "a.pdf",
+      mediaType: "pdf",
+      bytes: PDF.length,
+      sha256: sha256(PDF),
+      contentType: "application/pdf",
+    });
+    expect(fs.readFileSync(path.join(downloadDir, "a.pdf"))).toEqual(PDF);
+    expect(fs.existsSync(path.join(downloadDir, "a.pdf.part"))).toBe(false);
+    expect(progress.at(-1)).toBe(PDF.length);
+    expect(requests[0]?.headers.get("range")).toBeNull();
+  });
+
+  test("resumes a kept `.part` file with Range and If-Range", async () => {
+    const resumeFrom = keepPart(400, 20);
+
+    const result = await downloadPdfDirect(
+      url("a.pdf"),
+      path.join(downloadDir, "a.pdf"),
+      { resumeFrom },
+    );
+
+    expect(requests[0]?.headers.get("range")).toBe("bytes=400-");
+    expect(requests[0]?.headers.get("if-range")).toBe(ETAG);
+    // Bytes beyond the recorded offset were cut off before resuming
+    expect(fs.readFileSync(path.join(downloadDir, "a.pdf"))).toEqual(PDF);
+    expect(result?.sha256).toBe(sha256(PDF));
+    expect(result?.bytes).toBe(PDF.length);
+  });
+
+  test("starts over when the server answers a range with 200", async () => {
+    respond = serveFile(PDF, { ranges: false });
+    const resumeFrom = keepPart(400);
+
+    const result = await downloadPdfDirect(
+      url("a.pdf"),
+      path.join(downloadDir, "a.pdf"),
+      { resumeFrom },
+    );
+
+    expect(requests[0]?.headers.get("range")).toBe("bytes=400-");
+    expect(fs.readFileSync(path.join(downloadDir, "a.pdf"))).toEqual(PDF);
+    expect(result?.sha256).toBe(sha256(PDF));
+  });
+
+  test("does not resume a `.part` file of another name", async () => {
+    const resumeFrom = { ...keepPart(400), partName: "b.pdf.part" };
+
+    await downloadPdfDirect(url("a.pdf"), path.join(downloadDir, "a.pdf"), {
+      resumeFrom,
+    });
+
+    expect(requests[0]?.headers.get("range")).toBeNull();
+    expect(fs.readFileSync(path.join(downloadDir, "a.pdf"))).toEqual(PDF);
+  });
+
+  test("keeps what arrived of an interrupted download", async () => {
+    // Sends the first 400 bytes, then nothing until the connection drops
+    respond = () =>
+      new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(PDF.subarray(0, 400));
+          },
+        }),
+        {
+          headers: {
+            "Content-Type": "application/pdf",
+            "Content-Length": String(PDF.length),
+            ETag: ETAG,
+          },
+        },
+      );
+    const partials: (PartialDownload | null)[] = [];
+
+    await expect(
+      downloadPdfDirect(url("a.pdf"), path.join(downloadDir, "a.pdf"), {
+        onProgress: () => server.stop(true),
+        onPartial: (partial) => partials.push(partial),
+      }),
+    ).rejects.toThrow(/Failed to download PDF/);
+    expect(partials).toEqual([
+      { partName: "a.pdf.part", bytes: 400, validator: ETAG },
+    ]);
+    expect(fs.readdirSync(downloadDir)).toEqual(["a.pdf.part"]);
+  });
+
+  test("leaves an HTML challenge page to the browser", async () => {
+    respond = () =>
+      new Response("<html><body>Verify you are human</body></html>", {
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      });
+
+    const result = await downloadPdfDirect(
+      url("a.pdf"),
+      path.join(downloadDir, "a.pdf"),
+      {},
+    );
+
+    expect(result).toBeNull();
+    expect(fs.readdirSync(downloadDir)).toEqual([]);
+  });
+
+  test("leaves a 403 to the browser", async () => {
+    respond = () => new Response("Access Denied", { status: 403 });
+
+    const result = await downloadPdfDirect(
+      url("a.pdf"),
+      path.join(downloadDir, "a.pdf"),
+      {},
+    );
+
+    expect(result).toBeNull();
+    expect(fs.readdirSync(downloadDir)).toEqual([]);
+  });
+
+  test("fails on other HTTP errors", async () => {
+    respond = () => new Response("Not Found", { status: 404 });
+
+    await expect(
+      downloadPdfDirect(url("a.pdf"), path.join(downloadDir, "a.pdf"), {}),
+    ).rejects.toThrow(/HTTP 404/);
+    expect(fs.readdirSync(downloadDir)).toEqual([]);
+  });
+
+  test("never renames an error page sent as a PDF", async () => {
+    respond = serveFile(Buffer.from("<!DOCTYPE html><html>Error</html>"));
+
+    await expect(
+      downloadPdfDirect(url("a.pdf"), path.join(downloadDir, "a.pdf"), {}),
+    ).rejects.toThrow(/HTML page/);
+    expect(fs.readdirSync(downloadDir)).toEqual([]);
+  });
+});
+
+describe("finalizePartFile", () => {
+  test("renames a complete `.part` file", () => {
+    keepPart(PDF.length);
+
+    const saved = finalizePartFile(
+      path.join(downloadDir, "a.pdf.part"),
+      PDF.length,
+      PDF.length,
+      "application/pdf",
+      {},
+    );
+
+    expect(saved).toEqual({
+      filePath: path.join(downloadDir, "a.pdf"),
+      fileName: "a.pdf",
+      mediaType: "pdf",
+    });
+    expect(fs.readdirSync(downloadDir)).toEqual(["a.pdf"]);
+  });
+
+  test("gives the file the extension and folder of its media type", () => {
+    const jpeg = Buffer.concat([
+      Buffer.from([0xff, 0xd8, 0xff, 0xe0]),
+      Buffer.alloc(100),
+    ]);
+    fs.writeFileSync(path.join(downloadDir, "a.pdf.part"), jpeg);
+
+    const saved = finalizePartFile(
+      path.join(downloadDir, "a.pdf.part"),
+      jpeg.length,
+      null,
+      "image/jpeg",
+      { getOutputDir: (type) => path.join(downloadDir, type) },
+    );
+
+    expect(saved).toEqual({
+      filePath: path.join(downloadDir, "image", "a.jpg"),
+      fileName: "a.jpg",
+      mediaType: "image",
+    });
+    expect(fs.readFileSync(saved.filePath)).toEqual(jpeg);
+    expect(fs.existsSync(path.join(downloadDir, "a.pdf.part"))).toBe(false);
+  });
+
+  test("removes a truncated `.part` file instead of renaming it", () => {
+    keepPart(400);
+
+    expect(() =>
+      finalizePartFile(
+        path.join(downloadDir, "a.pdf.part"),
+        400,
+        PDF.length,
+        "application/pdf",
+        {},
+      ),
+    ).toThrow(/got 400 of 1005 bytes/);
+    expect(fs.readdirSync(downloadDir)).toEqual([]);
+  });
+
+  test("removes a `.part` file whose size is off from the search results", () => {
+    keepPart(PDF.length);
+
+    expect(() =>
+      finalizePartFile(
+        path.join(downloadDir, "a.pdf.part"),
+        PDF.length,
+        null,
+        "application/pdf",
+        { expectedSize: 2 * PDF.length },
+      ),
+    ).toThrow(/does not match the expected/);
+    expect(fs.readdirSync(downloadDir)).toEqual([]);
+  });
+
+  test("removes an empty `.part` file", () => {
+    keepPart(0);
+
+    expect(() =>
+      finalizePartFile(
+        path.join(downloadDir, "a.pdf.part"),
+        0,
+        null,
+        "application/pdf",
+        {},
+      ),
+    ).toThrow(/empty/);
+    expect(fs.readdirSync(downloadDir)).toEqual([]);
+  });
+});
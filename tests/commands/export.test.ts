@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { exportTasks } from "../../src/commands/export.ts";
+import { TaskQueue } from "../../src/workers/task-queue.ts";
+import { getFilesDir } from "../../src/utils/layout.ts";
+
+const SEARCH_TERM = "term";
+
+let downloadDir: string;
+let outputPath: string;
+
+/** Export to a file and return its content */
+function exportAs(
+  format: "csv" | "jsonl" | "json",
+  statuses?: (0 | 1 | 2 | 3)[],
+): string {
+  exportTasks(SEARCH_TERM, downloadDir, {
+    format,
+    statuses,
+    output: outputPath,
+  });
+  return fs.readFileSync(outputPath, "utf8");
+}
+
+beforeEach(() => {
+  downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-export-"));
+  outputPath = path.join(downloadDir, "out", "tasks");
+
+  const queue = new TaskQueue(downloadDir, SEARCH_TERM);
+  queue.initialize();
+  queue.insertPdfs([
+    {
+      id: "t1",
+      searchTerm: SEARCH_TERM,
+      pageNumber: 1,
+      pdfName: 'a, "quoted".pdf',
+      pdfUrl: "https://example.com/a.pdf",
+      fileSize: 10,
+      hitIndex: 1,
+      source: null,
+    },
+    {
+      id: "t2",
+      searchTerm: SEARCH_TERM,
+      pageNumber: 1,
+      pdfName: "b.pdf",
+      pdfUrl: "https://example.com/b.pdf",
+      fileSize: 20,
+      hitIndex: 2,
+      source: null,
+    },
+  ]);
+  const first = queue.claimNextPdf("worker-1")!;
+  queue.markComplete(first.id, "worker-1", {
+    sha256: "abc",
+    bytes: 10,
+    finalName: first.pdfName,
+    contentType: "application/pdf",
+    durationMs: 5,
+    mediaType: "pdf",
+  });
+  const second = queue.claimNextPdf("worker-1")!;
+  queue.markFailed(second.id, "HTTP 404: Not Found\nline two", "worker-1");
+  queue.close();
+});
+
+afterEach(() => {
+  fs.rmSync(downloadDir, { recursive: true, force: true });
+});
+
+describe("exportTasks", () => {
+  test("quotes CSV fields with separators, quotes and line breaks", () => {
+    const lines = exportAs("csv").split("\n");
+
+    expect(lines[0]).toStartWith("page,name,url,expected_size,status,");
+    expect(lines[1]).toStartWith(
+      '1,"a, ""quoted"".pdf",https://example.com/a.pdf,10,completed,downloaded,,worker-1,0,',
+    );
+    expect(lines[1]).toEndWith(
+      `,10,abc,application/pdf,"${path.join(getFilesDir(downloadDir, SEARCH_TERM), 'a, ""quoted"".pdf')}"`,
+    );
+    expect(lines[2]).toStartWith(
+      '1,b.pdf,https://example.com/b.pdf,20,failed,,"HTTP 404: Not Found',
+    );
+    expect(lines[3]).toStartWith('line two",worker-1,');
+  });
+
+  test("writes JSONL and JSON with the same rows", () => {
+    const jsonl = exportAs("jsonl")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    const json = JSON.parse(exportAs("json"));
+
+    expect(jsonl).toEqual(json);
+    expect(json.map((row: any) => [row.name, row.status])).toEqual([
+      ['a, "quoted".pdf', "completed"],
+      ["b.pdf", "failed"],
+    ]);
+  });
+
+  test("filters by status", () => {
+    const rows = JSON.parse(exportAs("json", [3]));
+
+    expect(rows.map((row: any) => row.name)).toEqual(["b.pdf"]);
+  });
+
+  test("fails for a search without a queue", () => {
+    expect(() =>
+      exportTasks("missing", downloadDir, { format: "csv" }),
+    ).toThrow(/No queue found/);
+  });
+});
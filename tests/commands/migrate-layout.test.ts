@@ -0,0 +1,171 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { migrateLayout } from "../../src/commands/migrate-layout.ts";
+import {
+  getJsonDir,
+  getLegacyDirs,
+  getMediaDir,
+} from "../../src/utils/layout.ts";
+import { logger } from "../../src/utils/logger.ts";
+
+let downloadDir: string;
+
+/** Write a file with `size` bytes, creating its folder */
+function writeFile(dir: string, name: string, size: number): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, Buffer.alloc(size, 65));
+  return filePath;
+}
+
+/** Lay out a search term the way sequential mode used to */
+function createLegacySearch(searchTerm: string): void {
+  const legacy = getLegacyDirs(downloadDir, searchTerm);
+  writeFile(legacy.jsonDir, "page-1.json", 10);
+  writeFile(legacy.mediaDirs.pdf, "a.pdf", 100);
+  writeFile(legacy.mediaDirs.pdf, "b.pdf", 200);
+  writeFile(legacy.mediaDirs.pdf, "c.pdf.part", 50);
+  writeFile(legacy.mediaDirs.video, "clip.mp4", 300);
+}
+
+beforeEach(() => {
+  downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-migrate-"));
+  spyOn(logger, "info").mockImplementation(() => {});
+  spyOn(logger, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+  fs.rmSync(downloadDir, { recursive: true, force: true });
+});
+
+describe("migrateLayout", () => {
+  test("moves every legacy search into the current layout", () => {
+    createLegacySearch("term");
+    createLegacySearch("other");
+
+    const result = migrateLayout(downloadDir, { dryRun: false });
+
+    expect(result).toEqual({
+      searchTerms: ["other", "term"],
+      moved: 8,
+      duplicates: 0,
+      conflicts: [],
+    });
+    for (const searchTerm of ["term", "other"]) {
+      expect(fs.readdirSync(getJsonDir(downloadDir, searchTerm))).toEqual([
+        "page-1.json",
+      ]);
+      expect(
+        fs.readdirSync(getMediaDir(downloadDir, searchTerm, "video")),
+      ).toEqual(["clip.mp4"]);
+      // PDFs go straight into the files folder
+      const filesDir = getMediaDir(downloadDir, searchTerm, "pdf");
+      expect(fs.statSync(path.join(filesDir, "a.pdf")).size).toBe(100);
+      expect(fs.statSync(path.join(filesDir, "b.pdf")).size).toBe(200);
+      // Interrupted sequential downloads are dropped, old folders removed
+      expect(fs.existsSync(path.join(filesDir, "c.pdf.part"))).toBe(false);
+      expect(fs.existsSync(path.join(downloadDir, searchTerm))).toBe(false);
+    }
+  });
+
+  test("changes nothing on a dry run", () => {
+    createLegacySearch("term");
+    const legacy = getLegacyDirs(downloadDir, "term");
+
+    const result = migrateLayout(downloadDir, { dryRun: true });
+
+    expect(result.moved).toBe(4);
+    expect(fs.readdirSync(legacy.mediaDirs.pdf).sort()).toEqual([
+      "a.pdf",
+      "b.pdf",
+      "c.pdf.part",
+    ]);
+    expect(fs.existsSync(path.join(downloadDir, "files"))).toBe(false);
+  });
+
+  test("does nothing when run again", () => {
+    createLegacySearch("term");
+    migrateLayout(downloadDir, { dryRun: false });
+    const filesDir = getMediaDir(downloadDir, "term", "pdf");
+    const before = fs.readdirSync(filesDir, { recursive: true }).sort();
+
+    const result = migrateLayout(downloadDir, { dryRun: false });
+
+    expect(result).toEqual({
+      searchTerms: [],
+      moved: 0,
+      duplicates: 0,
+      conflicts: [],
+    });
+    expect(fs.readdirSync(filesDir, { recursive: true }).sort()).toEqual(
+      before,
+    );
+  });
+
+  test("only migrates the given search term", () => {
+    createLegacySearch("term");
+    createLegacySearch("other");
+
+    const result = migrateLayout(downloadDir, {
+      searchTerm: "term",
+      dryRun: false,
+    });
+
+    expect(result.searchTerms).toEqual(["term"]);
+    expect(fs.existsSync(path.join(downloadDir, "term"))).toBe(false);
+    expect(fs.existsSync(getLegacyDirs(downloadDir, "other").jsonDir)).toBe(
+      true,
+    );
+  });
+
+  test("drops copies already in the new layout and keeps different files", () => {
+    createLegacySearch("term");
+    const filesDir = getMediaDir(downloadDir, "term", "pdf");
+    writeFile(filesDir, "a.pdf", 100);
+    writeFile(filesDir, "b.pdf", 999);
+    const legacy = getLegacyDirs(downloadDir, "term");
+
+    const result = migrateLayout(downloadDir, { dryRun: false });
+
+    expect(result.moved).toBe(2);
+    expect(result.duplicates).toBe(1);
+    expect(result.conflicts).toEqual([
+      path.join(legacy.mediaDirs.pdf, "b.pdf"),
+    ]);
+    // The conflicting file stays where it was, and so does its folder
+    expect(fs.readdirSync(legacy.mediaDirs.pdf)).toEqual(["b.pdf"]);
+    expect(fs.statSync(path.join(filesDir, "b.pdf")).size).toBe(999);
+    expect(fs.statSync(path.join(filesDir, "a.pdf")).size).toBe(100);
+  });
+
+  test("leaves folders of the current layout alone", () => {
+    writeFile(getJsonDir(downloadDir, "term"), "page-1.json", 10);
+    writeFile(getMediaDir(downloadDir, "term", "pdf"), "a.pdf", 100);
+
+    const result = migrateLayout(downloadDir, { dryRun: false });
+
+    expect(result.searchTerms).toEqual([]);
+    expect(
+      fs.existsSync(
+        path.join(getMediaDir(downloadDir, "term", "pdf"), "a.pdf"),
+      ),
+    ).toBe(true);
+  });
+
+  test("fails for a missing download directory", () => {
+    expect(() =>
+      migrateLayout(path.join(downloadDir, "missing"), { dryRun: false }),
+    ).toThrow(/not found/);
+  });
+});
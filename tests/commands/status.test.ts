@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  showAllSearches,
+  showSearchStatus,
+} from "../../src/commands/status.ts";
+import { getQueueDbPath } from "../../src/utils/layout.ts";
+import { logger } from "../../src/utils/logger.ts";
+import { TaskQueue } from "../../src/workers/task-queue.ts";
+
+const SEARCH_TERM = "term";
+
+let downloadDir: string;
+
+/** Run a status command and return what it printed, without colors */
+function capture(show: () => void): string {
+  const info = spyOn(logger, "info").mockImplementation(() => {});
+  try {
+    show();
+    return info.mock.calls
+      .map((args) => args.join(" ").replace(/\x1b\[[0-9;]*m/g, ""))
+      .join("\n");
+  } finally {
+    info.mockRestore();
+  }
+}
+
+/**
+ * Create a queue with a fetched and a failed page, and one completed, one
+ * failed and one pending PDF
+ */
+function createQueue(searchTerm: string): void {
+  const queue = new TaskQueue(downloadDir, searchTerm);
+  queue.initialize();
+  for (const pageNumber of [1, 2]) {
+    queue.markPageFetching(pageNumber);
+  }
+  queue.markPageFetched(1, 3);
+  queue.markPageFailed(2, "Timeout\nat fetchPage");
+  queue.insertPdfs(
+    ["a.pdf", "b.pdf", "c.pdf"].map((pdfName, i) => ({
+      id: `${searchTerm}-${i}`,
+      searchTerm,
+      pageNumber: 1,
+      pdfName,
+      pdfUrl: `https://example.com/${pdfName}`,
+      fileSize: 10,
+      hitIndex: i + 1,
+      source: null,
+    })),
+  );
+  const first = queue.claimNextPdf("worker-1")!;
+  queue.markComplete(first.id, "worker-1", {
+    sha256: "abc",
+    bytes: 10,
+    finalName: first.pdfName,
+    contentType: "application/pdf",
+    durationMs: 5,
+    mediaType: "pdf",
+  });
+  const second = queue.claimNextPdf("worker-1")!;
+  queue.markFailed(second.id, "HTTP 404\nNot Found", "worker-1");
+  queue.setMetadata("json_fetch_complete", "true");
+  queue.close();
+}
+
+/** Write a queue in the layout of schema version 1 */
+function createVersion1Queue(searchTerm: string): void {
+  const dbPath = getQueueDbPath(downloadDir, searchTerm);
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.run(`
+    CREATE TABLE pdf_tasks (
+      id TEXT PRIMARY KEY,
+      search_term TEXT NOT NULL,
+      page_number INTEGER NOT NULL,
+      pdf_name TEXT NOT NULL,
+      pdf_url TEXT NOT NULL,
+      file_size INTEGER,
+      status INTEGER DEFAULT 0,
+      worker_id TEXT,
+      retry_count INTEGER DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      started_at INTEGER,
+      completed_at INTEGER,
+      error TEXT,
+      UNIQUE(search_term, pdf_name)
+    )
+  `);
+  db.run("CREATE TABLE metadata (key TEXT PRIMARY KEY, value TEXT NOT NULL)");
+  db.run(
+    `INSERT INTO pdf_tasks (id, search_term, page_number, pdf_name, pdf_url, file_size, status, created_at)
+     VALUES ('t1', ?, 2, 'a.pdf', 'https://example.com/a.pdf', 100, 2, 0)`,
+    [searchTerm],
+  );
+  db.close();
+}
+
+beforeEach(() => {
+  downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-status-"));
+});
+
+afterEach(() => {
+  fs.rmSync(downloadDir, { recursive: true, force: true });
+});
+
+describe("showSearchStatus", () => {
+  test("prints queue counts, pages and recent errors", () => {
+    createQueue(SEARCH_TERM);
+
+    const output = capture(() =>
+      showSearchStatus(SEARCH_TERM, downloadDir, { errors: 5 }),
+    );
+
+    expect(output).toContain("JSON fetch: complete");
+    expect(output).toContain("Completed: 1 PDFs");
+    expect(output).toContain("Pending: 1 PDFs");
+    expect(output).toContain("Failed: 1 PDFs");
+    expect(output).toContain("Total: 3 PDFs");
+    expect(output).toMatch(/1\s+fetched\s+1\/3\s+1/);
+    expect(output).toMatch(/2\s+failed\s+0\/0\s+0 Timeout$/m);
+    expect(output).toContain("[page 1] b.pdf");
+    // Only the first line of each error
+    expect(output).toContain("HTTP 404");
+    expect(output).not.toContain("Not Found");
+    expect(output).not.toContain("fetchPage");
+  });
+
+  test("reads a queue from an older version without changing it", () => {
+    createVersion1Queue(SEARCH_TERM);
+    const before = fs.readFileSync(getQueueDbPath(downloadDir, SEARCH_TERM));
+
+    const output = capture(() =>
+      showSearchStatus(SEARCH_TERM, downloadDir, { errors: 5 }),
+    );
+
+    expect(output).toContain("Completed: 1 PDFs");
+    expect(output).toMatch(/2\s+fetched\s+1\/1\s+0/);
+    expect(fs.readFileSync(getQueueDbPath(downloadDir, SEARCH_TERM))).toEqual(
+      before,
+    );
+  });
+
+  test("does not create a missing queue", () => {
+    expect(() =>
+      capture(() => showSearchStatus(SEARCH_TERM, downloadDir, { errors: 5 })),
+    ).toThrow();
+    expect(TaskQueue.existsFor(downloadDir, SEARCH_TERM)).toBe(false);
+  });
+});
+
+describe("showAllSearches", () => {
+  test("lists every cached search with a summary", () => {
+    createQueue("first");
+    createVersion1Queue("second");
+
+    const output = capture(() => showAllSearches(downloadDir));
+
+    expect(output).toContain(
+      "first: 1/3 completed, 1 failed, 1 pending — unfinished",
+    );
+    expect(output).toContain("second: 1/1 completed, 0 failed, 0 pending");
+  });
+
+  test("reports a directory without cached searches", () => {
+    const output = capture(() => showAllSearches(downloadDir));
+
+    expect(output).toContain("No cached searches found");
+  });
+});
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  findExistingDownload,
+  findExistingPdfFile,
+  removeStalePartFiles,
+} from "../../src/utils/helpers.ts";
+import { getFilesDir, getMediaDir } from "../../src/utils/layout.ts";
+import type { NameFields } from "../../src/utils/naming.ts";
+
+let directory: string;
+
+/** Create a file of the given size */
+function writeFile(name: string, size: number): void {
+  fs.writeFileSync(path.join(directory, name), Buffer.alloc(size));
+}
+
+/** Name template fields of a hit on page 3 */
+function fields(fileName: string, fileSize = 100): NameFields {
+  return {
+    fileName,
+    pageNumber: 3,
+    searchTerm: "term",
+    index: 1,
+    fileSize,
+    source: null,
+  };
+}
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-helpers-"));
+});
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("findExistingPdfFile", () => {
+  test("finds the file under its target name", () => {
+    writeFile("3-EFTA1.pdf", 100);
+
+    expect(
+      findExistingPdfFile(directory, "{page}-{name}", fields("EFTA1.pdf")),
+    ).toEqual({
+      filePath: path.join(directory, "3-EFTA1.pdf"),
+      needsRename: false,
+      targetName: "3-EFTA1.pdf",
+      bytes: 100,
+    });
+  });
+
+  test("renames a file saved on another page and keeps its extension", () => {
+    writeFile("5-EFTA1.mp4", 100);
+
+    const existing = findExistingPdfFile(
+      directory,
+      "{page}-{name}",
+      fields("EFTA1.pdf"),
+    );
+
+    expect(existing?.filePath).toBe(path.join(directory, "5-EFTA1.mp4"));
+    expect(existing?.needsRename).toBe(true);
+    expect(existing?.targetName).toBe("3-EFTA1.mp4");
+  });
+
+  test("names a file after the time it was saved", () => {
+    writeFile("EFTA1_2024-05-01.pdf", 100);
+    const savedAt = new Date(2024, 4, 1, 12);
+    fs.utimesSync(
+      path.join(directory, "EFTA1_2024-05-01.pdf"),
+      savedAt,
+      savedAt,
+    );
+
+    const existing = findExistingPdfFile(
+      directory,
+      "{stem}_{date}{ext}",
+      fields("EFTA1.pdf"),
+    );
+
+    expect(existing?.needsRename).toBe(false);
+    expect(existing?.targetName).toBe("EFTA1_2024-05-01.pdf");
+  });
+
+  test("does not match other documents of the same size", () => {
+    writeFile("IMG-1.jpg", 100);
+    writeFile("scan IMG copy.jpg", 100);
+    writeFile("IMG10.jpg", 100);
+    writeFile("IMG.jpg.part", 100);
+
+    expect(findExistingPdfFile(directory, "{name}", fields("IMG.jpg"))).toBe(
+      null,
+    );
+    // "IMG" is not a page number
+    expect(
+      findExistingPdfFile(directory, "{page}-{name}", fields("1.jpg")),
+    ).toBeNull();
+  });
+
+  test("does not match files saved under another template", () => {
+    writeFile("EFTA1.pdf", 100);
+    writeFile("EFTA1_2024-05-01.pdf", 100);
+
+    expect(
+      findExistingPdfFile(directory, "{page}-{name}", fields("EFTA1.pdf")),
+    ).toBeNull();
+  });
+
+  test("escapes regular expression characters in the template", () => {
+    writeFile("1-a(1).pdf", 100);
+    writeFile("a_1.pdf", 100);
+
+    expect(
+      findExistingPdfFile(directory, "{page}-{name}", fields("a(1).pdf"))
+        ?.targetName,
+    ).toBe("3-a(1).pdf");
+    expect(findExistingPdfFile(directory, "{name}", fields("a.1.pdf"))).toBe(
+      null,
+    );
+  });
+
+  test("requires the exact size, so a truncated file is not skipped", () => {
+    writeFile("EFTA1.pdf", 990);
+
+    expect(
+      findExistingPdfFile(directory, "{name}", fields("EFTA1.pdf", 990))?.bytes,
+    ).toBe(990);
+    expect(
+      findExistingPdfFile(directory, "{name}", fields("EFTA1.pdf", 1000)),
+    ).toBeNull();
+    expect(
+      findExistingPdfFile(directory, "{name}", fields("EFTA1.pdf", 0)),
+    ).toBeNull();
+  });
+});
+
+describe("findExistingDownload", () => {
+  test("finds a file moved to a media folder by its detected format", () => {
+    const videosDir = getMediaDir(directory, "term", "video");
+    fs.mkdirSync(videosDir, { recursive: true });
+    fs.writeFileSync(path.join(videosDir, "EFTA1.mp4"), Buffer.alloc(100));
+
+    const existing = findExistingDownload(
+      directory,
+      "{name}",
+      fields("EFTA1.pdf"),
+    );
+
+    expect(existing?.filePath).toBe(path.join(videosDir, "EFTA1.mp4"));
+    expect(existing?.needsRename).toBe(false);
+  });
+
+  test("returns null when nothing was downloaded yet", () => {
+    expect(
+      findExistingDownload(directory, "{name}", fields("EFTA1.pdf")),
+    ).toBeNull();
+    expect(fs.existsSync(getFilesDir(directory, "term"))).toBe(false);
+  });
+});
+
+describe("removeStalePartFiles", () => {
+  test("keeps resumable and recently written .part files", () => {
+    const longAgo = new Date(Date.now() - 120000);
+    for (const name of ["a.pdf.part", "b.pdf.part", "c.pdf.part"]) {
+      writeFile(name, 10);
+      fs.utimesSync(path.join(directory, name), longAgo, longAgo);
+    }
+    writeFile("d.pdf.part", 10);
+    writeFile("e.pdf", 10);
+
+    const removed = removeStalePartFiles(
+      directory,
+      new Set(["b.pdf.part"]),
+      60000,
+    );
+
+    expect(removed).toBe(2);
+    expect(fs.readdirSync(directory).sort()).toEqual([
+      "b.pdf.part",
+      "d.pdf.part",
+      "e.pdf",
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import path from "path";
+import {
+  getFilesDir,
+  getLegacyDirs,
+  getMediaDir,
+} from "../../src/utils/layout.ts";
+import { MEDIA_TYPES } from "../../src/utils/media.ts";
+
+describe("getMediaDir", () => {
+  test("saves PDFs in the files folder and other media in subfolders", () => {
+    const filesDir = getFilesDir("downloads", "term");
+
+    expect(
+      MEDIA_TYPES.map((type) => getMediaDir("downloads", "term", type)),
+    ).toEqual([
+      filesDir,
+      path.join(filesDir, "videos"),
+      path.join(filesDir, "audio"),
+      path.join(filesDir, "images"),
+      path.join(filesDir, "other"),
+    ]);
+    expect(filesDir).toBe(path.join("downloads", "files", "term"));
+  });
+});
+
+describe("getLegacyDirs", () => {
+  test("points at the folders of the old sequential layout", () => {
+    const legacy = getLegacyDirs("downloads", "term");
+
+    expect(legacy.root).toBe(path.join("downloads", "term"));
+    expect(legacy.jsonDir).toBe(path.join("downloads", "term", "json"));
+    expect(legacy.mediaDirs.pdf).toBe(path.join("downloads", "term", "pdfs"));
+    expect(legacy.mediaDirs.video).toBe(
+      path.join("downloads", "term", "videos"),
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import {
+  detectFormat,
+  formatFromContentType,
+  getMediaType,
+  withFormatExtension,
+  type MediaType,
+} from "../../src/utils/media.ts";
+
+describe("detectFormat", () => {
+  test.each<[string, MediaType, string]>([
+    ["%PDF-1.7\n", "pdf", ".pdf"],
+    ["junk before %PDF-1.4", "pdf", ".pdf"],
+    ["\x00\x00\x00\x20ftypisom", "video", ".mp4"],
+    ["\x00\x00\x00\x14ftypqt  ", "video", ".mov"],
+    ["\x00\x00\x00\x20ftypM4A ", "audio", ".m4a"],
+    ["\x00\x00\x00\x18ftypheic", "image", ".heic"],
+    ["RIFF\x00\x00\x00\x00WAVEfmt ", "audio", ".wav"],
+    ["RIFF\x00\x00\x00\x00AVI LIST", "video", ".avi"],
+    ["\x1a\x45\xdf\xa3\x9f\x42\x86\x81\x01webm", "video", ".webm"],
+    ["\x1a\x45\xdf\xa3\x9f\x42\x86\x81\x01matroska", "video", ".mkv"],
+    ["ID3\x04\x00", "audio", ".mp3"],
+    ["\xff\xfb\x90\x00", "audio", ".mp3"],
+    ["\xff\xd8\xff\xe0", "image", ".jpg"],
+    ["\x89PNG\r\n\x1a\n", "image", ".png"],
+    ["GIF89a", "image", ".gif"],
+  ])("recognizes %j", (header, type, extension) => {
+    const format = detectFormat(header);
+
+    expect(format?.type).toBe(type);
+    expect(format?.extensions[0]).toBe(extension);
+  });
+
+  test("returns null for unknown content", () => {
+    expect(detectFormat("<!DOCTYPE html><html>")).toBeNull();
+    expect(detectFormat("")).toBeNull();
+  });
+
+  test("does not take an HTML page that mentions %PDF- for a PDF", () => {
+    expect(
+      detectFormat("<!DOCTYPE html><p>Not a valid %PDF-1.4 file</p>"),
+    ).toBeNull();
+    expect(detectFormat("<html>\n%PDF-1.7")).toBeNull();
+    expect(detectFormat("%PDF-1.7\n<html>")?.type).toBe("pdf");
+  });
+});
+
+describe("formatFromContentType", () => {
+  test("ignores parameters and case", () => {
+    expect(formatFromContentType("Video/MP4; charset=binary")?.type).toBe(
+      "video",
+    );
+  });
+
+  test("returns null for generic or missing types", () => {
+    expect(formatFromContentType("application/octet-stream")).toBeNull();
+    expect(formatFromContentType(null)).toBeNull();
+  });
+});
+
+describe("getMediaType", () => {
+  test("uses the extension, case-insensitively", () => {
+    expect(getMediaType("EFTA1.pdf")).toBe("pdf");
+    expect(getMediaType("clip.MOV")).toBe("video");
+    expect(getMediaType("notes.txt")).toBe("other");
+    expect(getMediaType("EFTA1")).toBe("other");
+  });
+});
+
+describe("withFormatExtension", () => {
+  const mp4 = detectFormat("\x00\x00\x00\x20ftypisom")!;
+
+  test("replaces an extension that does not fit the format", () => {
+    expect(withFormatExtension("EFTA1.pdf", mp4)).toBe("EFTA1.mp4");
+    expect(withFormatExtension("EFTA1", mp4)).toBe("EFTA1.mp4");
+  });
+
+  test("keeps any extension of the format", () => {
+    expect(withFormatExtension("EFTA1.M4V", mp4)).toBe("EFTA1.M4V");
+    expect(
+      withFormatExtension("EFTA1.bin", { type: "other", extensions: [] }),
+    ).toBe("EFTA1.bin");
+  });
+});
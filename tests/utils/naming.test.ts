@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_NAME_TEMPLATE,
+  existingNamePattern,
+  parseNameTemplate,
+  renderFileName,
+  templateFromPrefix,
+  type NameFields,
+} from "../../src/utils/naming.ts";
+import { withFormatExtension } from "../../src/utils/media.ts";
+
+const FIELDS: NameFields = {
+  fileName: "EFTA00000001.pdf",
+  pageNumber: 3,
+  searchTerm: "flight logs",
+  index: 7,
+  fileSize: 1234,
+  source: {
+    ORIGIN_FILE_URI: "https://example.com/files/EFTA00000001.pdf",
+    tags: ["a", "b"],
+    nested: { key: "value" },
+  },
+  savedAt: new Date(2024, 4, 1),
+};
+
+describe("renderFileName", () => {
+  test("fills the built-in placeholders", () => {
+    expect(
+      renderFileName("{term}_{page}-{index}_{size}_{date}_{stem}{ext}", FIELDS),
+    ).toBe("flight logs_3-7_1234_2024-05-01_EFTA00000001.pdf");
+    expect(renderFileName(DEFAULT_NAME_TEMPLATE, FIELDS)).toBe(
+      "EFTA00000001.pdf",
+    );
+  });
+
+  test("fills _source fields and replaces unsafe characters", () => {
+    expect(renderFileName("{ORIGIN_FILE_URI}-{name}", FIELDS)).toBe(
+      "https___example.com_files_EFTA00000001.pdf-EFTA00000001.pdf",
+    );
+    expect(renderFileName("{tags}{nested}-{name}", FIELDS)).toBe(
+      "a,b-EFTA00000001.pdf",
+    );
+  });
+
+  test("leaves unknown placeholders and an unknown index empty", () => {
+    expect(
+      renderFileName("{missing}{index}-{name}", { ...FIELDS, index: null }),
+    ).toBe("-EFTA00000001.pdf");
+  });
+
+  test("does not look up inherited properties", () => {
+    expect(renderFileName("{constructor}{name}", FIELDS)).toBe(
+      "EFTA00000001.pdf",
+    );
+  });
+
+  test("turns escaped braces into literal ones", () => {
+    expect(renderFileName("{{page}}-{{{page}}}-{name}", FIELDS)).toBe(
+      "{page}-{3}-EFTA00000001.pdf",
+    );
+  });
+
+  test("keeps the extension last, so the detected format can fix it", () => {
+    const name = renderFileName(
+      parseNameTemplate("{stem}_{page}{ext}"),
+      FIELDS,
+    );
+
+    expect(
+      withFormatExtension(name, { type: "video", extensions: [".mp4"] }),
+    ).toBe("EFTA00000001_3.mp4");
+  });
+});
+
+describe("existingNamePattern", () => {
+  test("matches names with another page, index or date", () => {
+    const pattern = existingNamePattern(
+      "{page}-{index}_{date}_{stem}{ext}",
+      FIELDS,
+    );
+
+    expect(pattern.test("3-7_2024-05-01_EFTA00000001.pdf")).toBe(true);
+    expect(pattern.test("12-_2023-11-30_EFTA00000001.pdf")).toBe(true);
+    expect(pattern.test("3-7_2024-05-01_EFTA00000001.mp4")).toBe(true);
+    expect(pattern.test("3-7_2024-05-01_EFTA00000001")).toBe(true);
+    expect(pattern.test("x-7_2024-05-01_EFTA00000001.pdf")).toBe(false);
+    expect(pattern.test("3-7_2024-05-01_EFTA000000012.pdf")).toBe(false);
+  });
+
+  test("matches literal parts and other fields exactly", () => {
+    const pattern = existingNamePattern("{{{term}}}.{ORIGIN_FILE_URI}{name}", {
+      ...FIELDS,
+      source: { ORIGIN_FILE_URI: "a*b" },
+    });
+
+    expect(pattern.test("{flight logs}.a_bEFTA00000001.pdf")).toBe(true);
+    expect(pattern.test("{flight logs}xa_bEFTA00000001.pdf")).toBe(false);
+    expect(pattern.test("{other}.a_bEFTA00000001.pdf")).toBe(false);
+  });
+});
+
+describe("parseNameTemplate", () => {
+  test("returns a valid template trimmed", () => {
+    expect(parseNameTemplate("  {page}-{name} ")).toBe("{page}-{name}");
+    expect(parseNameTemplate("{stem}_{date}{ext}")).toBe("{stem}_{date}{ext}");
+  });
+
+  test.each([
+    ["", /cannot be empty/],
+    ["   ", /cannot be empty/],
+    ["{page}/{name}", /path separators/],
+    ["{page}\\{name}", /path separators/],
+    ["{page}-{ext}", /must contain \{name\} or \{stem\}/],
+    ["{{name}}", /must contain \{name\} or \{stem\}/],
+    ["{name}_{page}", /must end with \{name\} or \{ext\}/],
+    ["{stem}_{date}", /must end with \{name\} or \{ext\}/],
+    ["{name}.bak", /must end with \{name\} or \{ext\}/],
+  ])("rejects %j", (template, message) => {
+    expect(() => parseNameTemplate(template)).toThrow(message);
+  });
+});
+
+describe("templateFromPrefix", () => {
+  test("maps the prefix modes to templates", () => {
+    expect(templateFromPrefix("none", undefined)).toBe("{name}");
+    expect(templateFromPrefix("page", undefined)).toBe("{page}-{name}");
+    expect(templateFromPrefix("custom", "EPSTEIN")).toBe("EPSTEIN-{name}");
+    expect(templateFromPrefix("custom", undefined)).toBe("{name}");
+  });
+
+  test("keeps braces of a custom prefix literal", () => {
+    const template = templateFromPrefix("custom", "{page}");
+
+    expect(renderFileName(template, FIELDS)).toBe("{page}-EFTA00000001.pdf");
+    expect(parseNameTemplate(template, "--prefix")).toBe(template);
+  });
+
+  test("gives templates that parseNameTemplate checks like any other", () => {
+    expect(() =>
+      parseNameTemplate(templateFromPrefix("custom", "a/b"), "--prefix"),
+    ).toThrow("--prefix cannot contain path separators");
+    expect(parseNameTemplate(templateFromPrefix("custom", "}{"))).toBe(
+      "}}{{-{name}",
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  matchesExpectedSize,
+  validateDownloadedFile,
+} from "../../src/utils/validation.ts";
+
+let directory: string;
+
+/** Write a file and return its path and size */
+function writeFile(name: string, content: string): [string, number] {
+  const filePath = path.join(directory, name);
+  fs.writeFileSync(filePath, Buffer.from(content, "latin1"));
+  return [filePath, fs.statSync(filePath).size];
+}
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-validation-"));
+});
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("validateDownloadedFile", () => {
+  test("accepts a PDF and returns its format", () => {
+    const [filePath, bytes] = writeFile("a.pdf", "%PDF-1.7\n%%EOF\n");
+
+    const format = validateDownloadedFile(filePath, bytes, {
+      fileName: "a.pdf",
+      contentType: "application/pdf",
+      expectedSize: bytes,
+    });
+
+    expect(format.type).toBe("pdf");
+  });
+
+  test("detects the real format of a file named as a PDF", () => {
+    const [filePath, bytes] = writeFile("a.pdf", "\x00\x00\x00\x20ftypisom");
+
+    const format = validateDownloadedFile(filePath, bytes, {
+      fileName: "a.pdf",
+      contentType: "application/pdf",
+      expectedSize: null,
+    });
+
+    expect(format.type).toBe("video");
+  });
+
+  test("rejects an HTML page as retryable", () => {
+    const [filePath, bytes] = writeFile("a.pdf", "<!DOCTYPE html><html>");
+
+    expect(() =>
+      validateDownloadedFile(filePath, bytes, {
+        fileName: "a.pdf",
+        contentType: "application/pdf",
+        expectedSize: null,
+      }),
+    ).toThrow(/HTML page/);
+  });
+
+  test("rejects an HTML page that mentions %PDF-", () => {
+    const [filePath, bytes] = writeFile(
+      "a.pdf",
+      "<html><body>Could not serve %PDF-1.7 document</body></html>",
+    );
+
+    expect(() =>
+      validateDownloadedFile(filePath, bytes, {
+        fileName: "a.pdf",
+        contentType: "application/pdf",
+        expectedSize: null,
+      }),
+    ).toThrow(/HTML page/);
+  });
+
+  test("rejects a PDF without a signature", () => {
+    const [filePath, bytes] = writeFile("a.pdf", "plain text");
+
+    expect(() =>
+      validateDownloadedFile(filePath, bytes, {
+        fileName: "a.pdf",
+        contentType: null,
+        expectedSize: null,
+      }),
+    ).toThrow(/not a PDF/);
+  });
+
+  test("falls back to the Content-Type, then the file name", () => {
+    const [filePath, bytes] = writeFile("a.wmv", "unknown bytes");
+
+    expect(
+      validateDownloadedFile(filePath, bytes, {
+        fileName: "a.wmv",
+        contentType: "audio/mpeg",
+        expectedSize: null,
+      }).type,
+    ).toBe("audio");
+    expect(
+      validateDownloadedFile(filePath, bytes, {
+        fileName: "a.wmv",
+        contentType: null,
+        expectedSize: null,
+      }).type,
+    ).toBe("video");
+  });
+
+  test("rejects a size outside the tolerance, unless it is unknown", () => {
+    const [filePath, bytes] = writeFile("a.pdf", "%PDF-1.7\n");
+    const validate = (expectedSize: number) =>
+      validateDownloadedFile(filePath, bytes, {
+        fileName: "a.pdf",
+        contentType: null,
+        expectedSize,
+      });
+
+    expect(() => validate(bytes * 2)).toThrow(/does not match/);
+    expect(validate(0).type).toBe("pdf");
+  });
+});
+
+describe("matchesExpectedSize", () => {
+  test("allows 2% difference from a known size", () => {
+    expect(matchesExpectedSize(1000, 1000)).toBe(true);
+    expect(matchesExpectedSize(1020, 1000)).toBe(true);
+    expect(matchesExpectedSize(980, 1000)).toBe(true);
+    expect(matchesExpectedSize(1021, 1000)).toBe(false);
+    expect(matchesExpectedSize(979, 1000)).toBe(false);
+  });
+
+  test("never matches an unknown size", () => {
+    expect(matchesExpectedSize(0, 0)).toBe(false);
+    expect(matchesExpectedSize(1000, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { AutoScaler, getWorkerNumber } from "../../src/workers/auto-scaler.ts";
+import type { RecentOutcomes } from "../../src/workers/types.ts";
+
+/** Outcomes of the scaling window */
+function outcomes(
+  completed: number,
+  failed: number,
+  avgDurationMs: number | null = 1000,
+): RecentOutcomes {
+  return { completed, failed, avgDurationMs };
+}
+
+describe("AutoScaler", () => {
+  test("clamps the initial target to the bounds", () => {
+    expect(new AutoScaler(20, 1, 10).getTarget()).toBe(10);
+    expect(new AutoScaler(0, 1, 10).getTarget()).toBe(1);
+  });
+
+  test("holds without enough recent downloads", () => {
+    const scaler = new AutoScaler(2, 1, 10);
+
+    const decision = scaler.evaluate(outcomes(1, 1), 100);
+
+    expect(decision).toMatchObject({ from: 2, to: 2 });
+    expect(decision.reason).toContain("not enough");
+  });
+
+  test("adds a worker when healthy with more pending work than workers", () => {
+    const scaler = new AutoScaler(2, 1, 10);
+
+    expect(scaler.evaluate(outcomes(10, 0), 100)).toMatchObject({
+      from: 2,
+      to: 3,
+    });
+    expect(scaler.getTarget()).toBe(3);
+  });
+
+  test("holds when there is no more pending work than workers", () => {
+    const scaler = new AutoScaler(2, 1, 10);
+
+    expect(scaler.evaluate(outcomes(10, 0), 2).to).toBe(2);
+  });
+
+  test("stops at the maximum", () => {
+    const scaler = new AutoScaler(3, 1, 3);
+
+    const decision = scaler.evaluate(outcomes(10, 0), 100);
+
+    expect(decision.to).toBe(3);
+    expect(decision.reason).toContain("maximum");
+  });
+
+  test("removes a worker when the failure rate is high, down to the minimum", () => {
+    const scaler = new AutoScaler(2, 1, 10);
+
+    expect(scaler.evaluate(outcomes(6, 2), 100).to).toBe(1);
+    expect(scaler.evaluate(outcomes(6, 2), 100).to).toBe(1);
+  });
+
+  test("holds between the low and high failure rates", () => {
+    const scaler = new AutoScaler(2, 1, 10);
+
+    const decision = scaler.evaluate(outcomes(9, 1), 100);
+
+    expect(decision.to).toBe(2);
+    expect(decision.reason).toContain("stable");
+  });
+
+  test("removes the added worker again when latency grows after scaling up", () => {
+    const scaler = new AutoScaler(2, 1, 10);
+    scaler.evaluate(outcomes(10, 0, 1000), 100);
+
+    const decision = scaler.evaluate(outcomes(10, 0, 1600), 100);
+
+    expect(decision).toMatchObject({ from: 3, to: 2 });
+    expect(decision.reason).toContain("latency grew");
+  });
+
+  test("keeps scaling up while latency holds", () => {
+    const scaler = new AutoScaler(2, 1, 10);
+    scaler.evaluate(outcomes(10, 0, 1000), 100);
+
+    expect(scaler.evaluate(outcomes(10, 0, 1400), 100).to).toBe(4);
+  });
+});
+
+describe("getWorkerNumber", () => {
+  test("reads the number at the end of a worker id", () => {
+    expect(getWorkerNumber("worker-1")).toBe(1);
+    expect(getWorkerNumber("worker-12")).toBe(12);
+    expect(getWorkerNumber("worker")).toBe(1);
+  });
+});
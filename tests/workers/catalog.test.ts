@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DocumentCatalog } from "../../src/workers/catalog.ts";
+
+let downloadDir: string;
+let catalog: DocumentCatalog;
+
+/** Record a document as downloaded to a file of the given size */
+function download(pdfUrl: string, pdfName: string, fileSize: number): string {
+  const localPath = path.join(downloadDir, `${pdfUrl.length}-${pdfName}`);
+  fs.writeFileSync(localPath, Buffer.alloc(fileSize));
+  catalog.recordDocuments([{ pdfUrl, pdfName, fileSize }], "term");
+  catalog.markDownloaded(pdfUrl, localPath, fileSize);
+  return localPath;
+}
+
+beforeEach(() => {
+  downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-catalog-"));
+  catalog = new DocumentCatalog(downloadDir);
+});
+
+afterEach(() => {
+  catalog.close();
+  fs.rmSync(downloadDir, { recursive: true, force: true });
+});
+
+describe("findDownloaded", () => {
+  test("finds a document by URL", () => {
+    const localPath = download("https://example.com/a.pdf", "a.pdf", 10);
+
+    const found = catalog.findDownloaded({
+      pdfUrl: "https://example.com/a.pdf",
+      pdfName: "renamed.pdf",
+      fileSize: 0,
+    });
+
+    expect(found?.localPath).toBe(localPath);
+  });
+
+  test("finds a document under another URL only if the size matches", () => {
+    download("https://example.com/a.pdf", "a.pdf", 10);
+
+    const sameSize = {
+      pdfUrl: "https://mirror.example.com/a.pdf",
+      pdfName: "a.pdf",
+      fileSize: 10,
+    };
+    expect(catalog.findDownloaded(sameSize)).not.toBeNull();
+    expect(catalog.findDownloaded({ ...sameSize, fileSize: 11 })).toBeNull();
+    expect(catalog.findDownloaded({ ...sameSize, fileSize: 0 })).toBeNull();
+  });
+
+  test("ignores files changed or removed since they were recorded", () => {
+    const localPath = download("https://example.com/a.pdf", "a.pdf", 10);
+    const pdf = {
+      pdfUrl: "https://example.com/a.pdf",
+      pdfName: "a.pdf",
+      fileSize: 10,
+    };
+
+    fs.writeFileSync(localPath, Buffer.alloc(5));
+    expect(catalog.findDownloaded(pdf)).toBeNull();
+
+    fs.rmSync(localPath);
+    expect(catalog.findDownloaded(pdf)).toBeNull();
+  });
+});
+
+describe("read-only catalog", () => {
+  test("reads an existing catalog without writing to it", () => {
+    download("https://example.com/a.pdf", "a.pdf", 10);
+    catalog.close();
+
+    catalog = new DocumentCatalog(downloadDir, { readonly: true });
+
+    expect(catalog.getDocument("https://example.com/a.pdf")?.status).toBe(2);
+    expect(() => catalog.markFailed("https://example.com/a.pdf")).toThrow();
+  });
+
+  test("treats a missing catalog as empty and does not create it", () => {
+    catalog.close();
+    fs.rmSync(DocumentCatalog.getDbPath(downloadDir));
+
+    catalog = new DocumentCatalog(downloadDir, { readonly: true });
+
+    expect(catalog.getDocument("https://example.com/a.pdf")).toBeNull();
+    expect(fs.existsSync(DocumentCatalog.getDbPath(downloadDir))).toBe(false);
+  });
+});
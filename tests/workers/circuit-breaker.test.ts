@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CircuitBreaker } from "../../src/workers/circuit-breaker.ts";
+import { TaskQueue } from "../../src/workers/task-queue.ts";
+
+const SEARCH_TERM = "term";
+/** Cooldown before the first probe, and after a failed one */
+const COOLDOWN_MS = 60000;
+/** How long a probe may take before another worker probes */
+const PROBE_TIMEOUT_MS = 10 * 60 * 1000;
+
+let downloadDir: string;
+let queue: TaskQueue;
+let breaker: CircuitBreaker;
+let clock: number;
+let taskCount = 0;
+
+/** Insert a task, claim it and fail it with the given error */
+function fail(error: string): void {
+  const id = `t${++taskCount}`;
+  queue.insertPdfs([
+    {
+      id,
+      searchTerm: SEARCH_TERM,
+      pageNumber: 1,
+      pdfName: `${id}.pdf`,
+      pdfUrl: `https://example.com/${id}.pdf`,
+      fileSize: 10,
+      hitIndex: taskCount,
+      source: null,
+    },
+  ]);
+  queue.claimNextPdf("worker-1");
+  queue.markFailed(id, error, "worker-1");
+}
+
+/**
+ * Fail enough downloads with transient errors to open a closed breaker,
+ * opening it just after these failures
+ */
+async function failUntilOpen(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    fail("HTTP 503");
+  }
+  await Bun.sleep(2);
+  clock = Date.now();
+  expect(breaker.recordFailure()).toBe(true);
+}
+
+beforeEach(async () => {
+  downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-breaker-"));
+  queue = new TaskQueue(downloadDir, SEARCH_TERM);
+  queue.initialize();
+  taskCount = 0;
+  clock = Date.now();
+  breaker = new CircuitBreaker(queue, () => clock);
+  CircuitBreaker.reset(queue);
+});
+
+afterEach(() => {
+  queue.close();
+  fs.rmSync(downloadDir, { recursive: true, force: true });
+});
+
+describe("closed", () => {
+  test("lets workers claim", () => {
+    expect(breaker.checkClaim("worker-1")).toBe("claim");
+    expect(breaker.isOpen()).toBe(false);
+  });
+
+  test("stays closed with too few outcomes to judge", () => {
+    for (let i = 0; i < 4; i++) {
+      fail("HTTP 503");
+    }
+
+    expect(breaker.recordFailure()).toBe(false);
+    expect(breaker.getState().state).toBe("closed");
+  });
+
+  test("does not count permanent failures", () => {
+    for (let i = 0; i < 5; i++) {
+      fail("HTTP 404");
+    }
+
+    expect(breaker.recordFailure()).toBe(false);
+    expect(breaker.isOpen()).toBe(false);
+  });
+
+  test("opens at half the recent downloads failing transiently", async () => {
+    await failUntilOpen();
+
+    expect(breaker.getState()).toMatchObject({
+      state: "open",
+      openedAt: clock,
+      nextProbeAt: clock + COOLDOWN_MS,
+      trips: 1,
+    });
+    // Opened once, not again by the next failure
+    expect(breaker.recordFailure()).toBe(false);
+  });
+});
+
+describe("open", () => {
+  beforeEach(async () => {
+    await failUntilOpen();
+  });
+
+  test("makes every worker wait during the cooldown", () => {
+    clock += COOLDOWN_MS - 1;
+
+    expect(breaker.checkClaim("worker-1")).toBe("wait");
+    expect(breaker.checkClaim("worker-2")).toBe("wait");
+    expect(breaker.getState().state).toBe("open");
+  });
+
+  test("lets a single worker probe after the cooldown", () => {
+    clock += COOLDOWN_MS;
+
+    expect(breaker.checkClaim("worker-1")).toBe("probe");
+    expect(breaker.checkClaim("worker-2")).toBe("wait");
+    expect(breaker.checkClaim("worker-1")).toBe("wait");
+    expect(breaker.getState()).toMatchObject({
+      state: "half-open",
+      probeWorkerId: "worker-1",
+    });
+  });
+});
+
+describe("half-open", () => {
+  beforeEach(async () => {
+    await failUntilOpen();
+    clock += COOLDOWN_MS;
+    expect(breaker.checkClaim("worker-1")).toBe("probe");
+  });
+
+  test("closes after a successful probe", () => {
+    // Failed while the breaker was open: one transient, one permanent
+    fail("HTTP 502");
+    fail("HTTP 404");
+
+    const requeued = breaker.recordProbe("worker-1", true);
+
+    expect(requeued).toBe(1);
+    expect(breaker.getState()).toMatchObject({
+      state: "closed",
+      openedAt: null,
+      probeWorkerId: null,
+      closedAt: clock,
+      trips: 1,
+    });
+    expect(breaker.checkClaim("worker-2")).toBe("claim");
+  });
+
+  test("opens for another cooldown after a failed probe", () => {
+    expect(breaker.recordProbe("worker-1", false)).toBe(0);
+
+    expect(breaker.getState()).toMatchObject({
+      state: "open",
+      nextProbeAt: clock + COOLDOWN_MS,
+      probeWorkerId: null,
+    });
+    clock += COOLDOWN_MS - 1;
+    expect(breaker.checkClaim("worker-2")).toBe("wait");
+    clock += 1;
+    expect(breaker.checkClaim("worker-2")).toBe("probe");
+  });
+
+  test("ignores results from workers other than the prober", () => {
+    expect(breaker.recordProbe("worker-2", true)).toBe(0);
+
+    expect(breaker.getState()).toMatchObject({
+      state: "half-open",
+      probeWorkerId: "worker-1",
+    });
+  });
+
+  test("hands the probe to another worker once it timed out", () => {
+    clock += PROBE_TIMEOUT_MS - 1;
+    expect(breaker.checkClaim("worker-2")).toBe("wait");
+
+    clock += 1;
+    expect(breaker.checkClaim("worker-2")).toBe("probe");
+    // The late result of the first probe no longer counts
+    breaker.recordProbe("worker-1", true);
+    expect(breaker.getState()).toMatchObject({
+      state: "half-open",
+      probeWorkerId: "worker-2",
+    });
+  });
+
+  test("lets another worker probe at once after an abandoned probe", () => {
+    breaker.abandonProbe("worker-1");
+
+    expect(breaker.getState().state).toBe("open");
+    expect(breaker.checkClaim("worker-2")).toBe("probe");
+  });
+
+  test("does not reopen for failures from before it closed", () => {
+    breaker.recordProbe("worker-1", true);
+    clock += 1;
+
+    expect(breaker.recordFailure()).toBe(false);
+    expect(breaker.getState().state).toBe("closed");
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { fetchInOrder } from "../../src/workers/coordinator.ts";
+
+/** Resolves with the page after the given delay */
+function fetchAfter(
+  delays: Record<number, number>,
+  log: string[],
+): (page: number) => Promise<number> {
+  return async (page) => {
+    log.push(`fetch ${page}`);
+    await Bun.sleep(delays[page] ?? 0);
+    log.push(`fetched ${page}`);
+    return page;
+  };
+}
+
+describe("fetchInOrder", () => {
+  test("hands results over in page order whatever order they finish in", async () => {
+    const log: string[] = [];
+    const inserted: number[] = [];
+
+    await fetchInOrder(
+      [1, 2, 3, 4],
+      4,
+      fetchAfter({ 1: 40, 2: 5, 3: 20, 4: 0 }, log),
+      (page, result) => {
+        expect(result).toBe(page);
+        inserted.push(page);
+        log.push(`insert ${page}`);
+      },
+    );
+
+    expect(inserted).toEqual([1, 2, 3, 4]);
+    // Nothing is inserted before page 1 is in, then everything at once
+    expect(log.indexOf("insert 2")).toBeGreaterThan(log.indexOf("fetched 1"));
+  });
+
+  test("inserts a page as soon as every page before it is in", async () => {
+    const log: string[] = [];
+
+    await fetchInOrder(
+      [1, 2, 3],
+      2,
+      fetchAfter({ 1: 0, 2: 10, 3: 60 }, log),
+      (page) => {
+        log.push(`insert ${page}`);
+      },
+    );
+
+    expect(log.indexOf("insert 2")).toBeLessThan(log.indexOf("fetched 3"));
+  });
+
+  test("runs at most `concurrency` fetches at a time", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const fetched: number[] = [];
+
+    await fetchInOrder(
+      [1, 2, 3, 4, 5, 6, 7],
+      3,
+      async (page) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await Bun.sleep(page % 2 === 0 ? 10 : 2);
+        running--;
+        return page;
+      },
+      (page) => fetched.push(page),
+    );
+
+    expect(maxRunning).toBe(3);
+    expect(fetched).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  test("does nothing without items", async () => {
+    const fetched: number[] = [];
+
+    await fetchInOrder(
+      [],
+      3,
+      async (page: number) => page,
+      (page) => fetched.push(page),
+    );
+
+    expect(fetched).toEqual([]);
+  });
+});
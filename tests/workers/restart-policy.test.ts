@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import {
+  MAX_RESTARTS_PER_WORKER,
+  MAX_TOTAL_RESTARTS,
+  getRestartDelay,
+  hasRestartBudget,
+} from "../../src/workers/restart-policy.ts";
+
+describe("hasRestartBudget", () => {
+  test("allows 3 restarts per worker", () => {
+    expect(MAX_RESTARTS_PER_WORKER).toBe(3);
+    expect(hasRestartBudget(0, 0)).toBe(true);
+    expect(hasRestartBudget(2, 2)).toBe(true);
+    expect(hasRestartBudget(3, 3)).toBe(false);
+  });
+
+  test("allows 10 restarts per run across all workers", () => {
+    expect(MAX_TOTAL_RESTARTS).toBe(10);
+    expect(hasRestartBudget(0, 9)).toBe(true);
+    expect(hasRestartBudget(0, 10)).toBe(false);
+    expect(hasRestartBudget(1, 12)).toBe(false);
+  });
+});
+
+describe("getRestartDelay", () => {
+  test("doubles from 2s per restart of the same worker", () => {
+    expect([0, 1, 2, 3].map(getRestartDelay)).toEqual([
+      2000, 4000, 8000, 16000,
+    ]);
+  });
+
+  test("caps the delay at 30s", () => {
+    expect(getRestartDelay(4)).toBe(30000);
+    expect(getRestartDelay(20)).toBe(30000);
+  });
+});
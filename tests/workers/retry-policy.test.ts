@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  DEFAULT_RETRY_POLICY,
+  classifyError,
+  createRetryPolicy,
+  getRetryDelay,
+  readRetryConfig,
+} from "../../src/workers/retry-policy.ts";
+
+describe("classifyError", () => {
+  test.each([
+    "Failed to download PDF: HTTP 404: Not Found",
+    "Failed to download PDF: HTTP 410: Gone",
+    "Downloaded PDF is empty",
+    "Downloaded file is not a PDF (no %PDF- header)",
+    "Invalid PDF structure",
+  ])("%j is permanent", (message) => {
+    expect(classifyError(message)).toBe("permanent");
+  });
+
+  test.each([
+    "Failed to download PDF: HTTP 408: Request Timeout",
+    "Failed to download PDF: HTTP 429: Too Many Requests",
+    "Failed to download PDF: HTTP 503: Service Unavailable",
+    "Server returned an HTML page instead of the file",
+    "Downloaded size 10 bytes does not match the expected 20 bytes",
+    "Download incomplete: got 10 of 20 bytes",
+    "Download timed out after 60s without data",
+    "Failed to download PDF: ECONNRESET",
+  ])("%j is transient", (message) => {
+    expect(classifyError(message)).toBe("transient");
+  });
+});
+
+describe("getRetryDelay", () => {
+  test("doubles the base delay per attempt up to the maximum", () => {
+    const policy = createRetryPolicy({
+      baseDelayMs: 1000,
+      maxDelayMs: 5000,
+      jitter: 0,
+    });
+
+    expect(
+      [1, 2, 3, 4].map((attempt) => getRetryDelay(policy, attempt)),
+    ).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  test("spreads the delay by the jitter in both directions", () => {
+    const policy = createRetryPolicy({ baseDelayMs: 1000, jitter: 0.2 });
+    const random = spyOn(Math, "random");
+
+    try {
+      random.mockReturnValue(0);
+      expect(getRetryDelay(policy, 1)).toBe(800);
+      random.mockReturnValue(0.5);
+      expect(getRetryDelay(policy, 1)).toBe(1000);
+      random.mockReturnValue(0.999999);
+      expect(getRetryDelay(policy, 1)).toBe(1200);
+    } finally {
+      random.mockRestore();
+    }
+  });
+});
+
+describe("createRetryPolicy", () => {
+  test("fills in the defaults", () => {
+    expect(createRetryPolicy({ maxAttempts: 5 })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 5,
+    });
+  });
+
+  test.each([
+    [{ maxAttempts: 0 }, /maxAttempts/],
+    [{ maxAttempts: 1.5 }, /maxAttempts/],
+    [{ baseDelayMs: -1 }, /baseDelayMs/],
+    [{ baseDelayMs: 5000, maxDelayMs: 1000 }, /maxDelayMs/],
+    [{ jitter: 2 }, /jitter/],
+  ])("rejects %j", (overrides, message) => {
+    expect(() => createRetryPolicy(overrides)).toThrow(message);
+  });
+});
+
+describe("readRetryConfig", () => {
+  let directory: string;
+
+  /** Write a config file and return its path */
+  function writeConfig(content: string): string {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-retry-"));
+    const filePath = path.join(directory, "retry.json");
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("reads the known settings and ignores others", () => {
+    const filePath = writeConfig('{ "maxAttempts": 5, "other": true }');
+
+    expect(readRetryConfig(filePath)).toEqual({ maxAttempts: 5 });
+  });
+
+  test("rejects non-numbers and non-objects", () => {
+    expect(() => readRetryConfig(writeConfig('{ "jitter": "0.2" }'))).toThrow(
+      /jitter must be a number/,
+    );
+    fs.rmSync(directory, { recursive: true, force: true });
+    expect(() => readRetryConfig(writeConfig("[1]"))).toThrow(
+      /must be a JSON object/,
+    );
+  });
+});
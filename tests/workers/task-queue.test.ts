@@ -0,0 +1,456 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  QUEUE_SCHEMA_VERSION,
+  TaskQueue,
+} from "../../src/workers/task-queue.ts";
+import { getCacheDir, getQueueDbPath } from "../../src/utils/layout.ts";
+import type { PdfTask } from "../../src/workers/types.ts";
+
+const SEARCH_TERM = "term";
+
+let downloadDir: string;
+let queue: TaskQueue;
+
+function makeTask(name: string, pageNumber = 1): PdfTask {
+  return {
+    id: `${SEARCH_TERM}_${pageNumber}_${name}`,
+    searchTerm: SEARCH_TERM,
+    pageNumber,
+    pdfName: name,
+    pdfUrl: `https://example.com/${name}`,
+    fileSize: 100,
+    hitIndex: 1,
+    source: { ORIGIN_FILE_NAME: name },
+  };
+}
+
+/** Move the lease of a task into the past */
+function expireLease(taskId: string): void {
+  const db = new Database(getQueueDbPath(downloadDir, SEARCH_TERM));
+  db.run("UPDATE pdf_tasks SET lease_expires_at = ? WHERE id = ?", [
+    Date.now() - 1,
+    taskId,
+  ]);
+  db.close();
+}
+
+beforeEach(() => {
+  downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-queue-"));
+  queue = new TaskQueue(downloadDir, SEARCH_TERM);
+  queue.initialize();
+});
+
+afterEach(() => {
+  queue.close();
+  fs.rmSync(downloadDir, { recursive: true, force: true });
+});
+
+describe("claiming", () => {
+  test("claims pending tasks in page and name order, once each", () => {
+    queue.insertPdfs([
+      makeTask("a.pdf", 2),
+      makeTask("c.pdf"),
+      makeTask("b.pdf"),
+    ]);
+
+    const claimed = [
+      queue.claimNextPdf("worker-1"),
+      queue.claimNextPdf("worker-2"),
+      queue.claimNextPdf("worker-1"),
+    ];
+
+    expect(claimed.map((task) => [task?.pageNumber, task?.pdfName])).toEqual([
+      [1, "b.pdf"],
+      [1, "c.pdf"],
+      [2, "a.pdf"],
+    ]);
+    expect(claimed[0]?.status).toBe(1);
+    expect(claimed[0]?.workerId).toBe("worker-1");
+    expect(queue.claimNextPdf("worker-3")).toBeNull();
+  });
+
+  test("keeps the hit index and _source of a task", () => {
+    queue.insertPdfs([makeTask("a.pdf")]);
+
+    const task = queue.claimNextPdf("worker-1");
+
+    expect(task?.hitIndex).toBe(1);
+    expect(task?.source).toEqual({ ORIGIN_FILE_NAME: "a.pdf" });
+  });
+
+  test("reclaims a task whose lease expired and counts the lost attempt", () => {
+    queue.insertPdfs([makeTask("a.pdf")]);
+    const first = queue.claimNextPdf("worker-1")!;
+    expect(queue.claimNextPdf("worker-2")).toBeNull();
+
+    expireLease(first.id);
+    const second = queue.claimNextPdf("worker-2");
+
+    expect(second?.id).toBe(first.id);
+    expect(second?.retryCount).toBe(1);
+    expect(queue.renewLease(first.id, "worker-1")).toBe(false);
+    expect(queue.renewLease(first.id, "worker-2")).toBe(true);
+  });
+
+  test("returns expired leases to pending", () => {
+    queue.insertPdfs([makeTask("a.pdf")]);
+    const task = queue.claimNextPdf("worker-1")!;
+
+    expireLease(task.id);
+
+    expect(queue.reclaimExpiredLeases()).toBe(1);
+    expect(queue.getProgress().pending).toBe(1);
+  });
+});
+
+describe("ownership", () => {
+  test("only the worker holding the lease completes a task", () => {
+    queue.insertPdfs([makeTask("a.pdf")]);
+    const task = queue.claimNextPdf("worker-1")!;
+    expireLease(task.id);
+    queue.claimNextPdf("worker-2");
+
+    expect(queue.markComplete(task.id, "worker-1")).toBe(false);
+    expect(queue.getProgress().inProgress).toBe(1);
+
+    expect(queue.markComplete(task.id, "worker-2")).toBe(true);
+    expect(queue.getTasks()[0]?.outcome).toBe("downloaded");
+  });
+
+  test("a reclaimed task is not failed by its previous worker", () => {
+    queue.insertPdfs([makeTask("a.pdf")]);
+    const task = queue.claimNextPdf("worker-1")!;
+    expireLease(task.id);
+    queue.claimNextPdf("worker-2");
+
+    queue.markFailed(task.id, "timeout", "worker-1");
+
+    expect(queue.getProgress().failed).toBe(0);
+  });
+});
+
+/** Insert tasks and fail each with its error */
+function insertFailed(failures: [PdfTask, string][]): void {
+  queue.insertPdfs(failures.map(([task]) => task));
+  for (const [task, error] of failures) {
+    queue.claimNextPdf("worker-1");
+    queue.markFailed(task.id, error, "worker-1");
+  }
+}
+
+/** Names of the pending tasks */
+function getPendingNames(): string[] {
+  return queue
+    .getTasks()
+    .filter((task) => task.status === 0)
+    .map((task) => task.pdfName);
+}
+
+describe("requeueing", () => {
+  describe("requeueFailed", () => {
+    beforeEach(() => {
+      insertFailed([
+        [makeTask("a.pdf", 1), "HTTP 503 Service Unavailable"],
+        [makeTask("report.pdf", 2), "HTTP 404 Not Found"],
+        [makeTask("Annual-Report.pdf", 3), "http 503"],
+      ]);
+    });
+
+    test("requeues every failed task without a filter", () => {
+      expect(queue.requeueFailed()).toBe(3);
+      expect(queue.getProgress()).toMatchObject({ pending: 3, failed: 0 });
+      expect(queue.getTasks().every((task) => task.retryCount === 1)).toBe(
+        true,
+      );
+    });
+
+    test("filters by page", () => {
+      expect(queue.requeueFailed({ pages: [1, 3] })).toBe(2);
+      expect(getPendingNames()).toEqual(["a.pdf", "Annual-Report.pdf"]);
+    });
+
+    test("filters by error substring, ignoring case", () => {
+      expect(queue.requeueFailed({ errorContains: "HTTP 503" })).toBe(2);
+      expect(getPendingNames()).toEqual(["a.pdf", "Annual-Report.pdf"]);
+    });
+
+    test("filters by name substring, ignoring case", () => {
+      expect(queue.requeueFailed({ nameContains: "report" })).toBe(2);
+      expect(getPendingNames()).toEqual(["report.pdf", "Annual-Report.pdf"]);
+    });
+
+    test("requeues only tasks matching all given filters", () => {
+      const requeued = queue.requeueFailed({
+        pages: [2, 3],
+        errorContains: "503",
+        nameContains: "report",
+      });
+
+      expect(requeued).toBe(1);
+      expect(getPendingNames()).toEqual(["Annual-Report.pdf"]);
+      expect(queue.getProgress().failed).toBe(2);
+    });
+
+    test("leaves tasks that are not failed alone", () => {
+      queue.insertPdfs([makeTask("done.pdf", 4)]);
+      const task = queue.claimNextPdf("worker-1")!;
+
+      expect(queue.requeueFailed({ nameContains: "done" })).toBe(0);
+      expect(queue.getTasks().find((t) => t.id === task.id)?.status).toBe(1);
+    });
+  });
+
+  test("requeues only failures the predicate accepts", () => {
+    queue.insertPdfs([makeTask("a.pdf"), makeTask("b.pdf")]);
+    const since = Date.now();
+    const first = queue.claimNextPdf("worker-1")!;
+    const second = queue.claimNextPdf("worker-1")!;
+    queue.markFailed(first.id, "HTTP 503", "worker-1");
+    queue.markFailed(second.id, "HTTP 404", "worker-1");
+
+    const requeued = queue.requeueFailedSince(since, (error) =>
+      error.includes("503"),
+    );
+
+    expect(requeued).toBe(1);
+    expect(queue.getProgress()).toMatchObject({ pending: 1, failed: 1 });
+    expect(queue.getFailedTasks()[0]?.id).toBe(second.id);
+  });
+});
+
+describe("pages", () => {
+  test("tracks a page from fetching to fetched", () => {
+    queue.markPageFetching(1);
+
+    expect(queue.getPageProgress()).toMatchObject({ total: 1, fetching: 1 });
+    expect(queue.hasPage(1)).toBe(false);
+
+    queue.markPageFetched(1, 2);
+
+    expect(queue.getPageProgress()).toMatchObject({
+      total: 1,
+      fetching: 0,
+      fetched: 1,
+    });
+    expect(queue.hasPage(1)).toBe(true);
+  });
+
+  test("records failed pages with their error and attempts", () => {
+    queue.markPageFetching(1);
+    queue.markPageFetching(2);
+    queue.markPageFetched(1, 0);
+    queue.markPageFailed(2, "Timeout");
+
+    expect(queue.getPageProgress()).toMatchObject({
+      total: 2,
+      fetched: 1,
+      failed: 1,
+    });
+    expect(queue.hasPage(2)).toBe(false);
+    expect(queue.getFailedPages()).toEqual([
+      expect.objectContaining({
+        pageNumber: 2,
+        status: 3,
+        attempts: 1,
+        error: "Timeout",
+      }),
+    ]);
+  });
+
+  test("counts the attempts of a page fetched again after failing", () => {
+    queue.markPageFetching(1);
+    queue.markPageFailed(1, "Timeout");
+    queue.markPageFetching(1);
+
+    expect(queue.getFailedPages()).toEqual([]);
+    expect(queue.getPageProgress()).toMatchObject({ total: 1, fetching: 1 });
+
+    queue.markPageFetched(1, 3);
+
+    const [summary] = queue.getPageSummaries();
+    expect(summary).toMatchObject({
+      pageNumber: 1,
+      fetchStatus: 2,
+      fetchAttempts: 2,
+      fetchError: null,
+    });
+  });
+
+  test("summarizes the tasks of each page in page order", () => {
+    for (const page of [2, 1, 3]) {
+      queue.markPageFetching(page);
+    }
+    queue.markPageFetched(2, 1);
+    queue.markPageFetched(1, 2);
+    queue.markPageFailed(3, "HTTP 500");
+    queue.insertPdfs([
+      makeTask("a.pdf", 1),
+      makeTask("b.pdf", 1),
+      makeTask("c.pdf", 2),
+    ]);
+    const first = queue.claimNextPdf("worker-1")!;
+    queue.markFailed(first.id, "HTTP 404", "worker-1");
+    queue.claimNextPdf("worker-1");
+
+    expect(queue.getPageSummaries()).toEqual([
+      {
+        pageNumber: 1,
+        fetchStatus: 2,
+        fetchAttempts: 1,
+        fetchError: null,
+        total: 2,
+        pending: 0,
+        inProgress: 1,
+        completed: 0,
+        failed: 1,
+      },
+      {
+        pageNumber: 2,
+        fetchStatus: 2,
+        fetchAttempts: 1,
+        fetchError: null,
+        total: 1,
+        pending: 1,
+        inProgress: 0,
+        completed: 0,
+        failed: 0,
+      },
+      {
+        pageNumber: 3,
+        fetchStatus: 3,
+        fetchAttempts: 1,
+        fetchError: "HTTP 500",
+        total: 0,
+        pending: 0,
+        inProgress: 0,
+        completed: 0,
+        failed: 0,
+      },
+    ]);
+  });
+
+  test("clears pages when the queue is initialized", () => {
+    queue.markPageFetching(1);
+    queue.markPageFetched(1, 0);
+
+    queue.initialize();
+
+    expect(queue.getPageProgress().total).toBe(0);
+    expect(queue.hasPage(1)).toBe(false);
+  });
+});
+
+/** Replace the queue with one created before schema versioning */
+function createVersion1Queue(): void {
+  queue.close();
+  fs.rmSync(getCacheDir(downloadDir, SEARCH_TERM), { recursive: true });
+  fs.mkdirSync(getCacheDir(downloadDir, SEARCH_TERM), { recursive: true });
+
+  const db = new Database(getQueueDbPath(downloadDir, SEARCH_TERM));
+  db.run("PRAGMA journal_mode = WAL");
+  db.run(`
+    CREATE TABLE pdf_tasks (
+      id TEXT PRIMARY KEY,
+      search_term TEXT NOT NULL,
+      page_number INTEGER NOT NULL,
+      pdf_name TEXT NOT NULL,
+      pdf_url TEXT NOT NULL,
+      file_size INTEGER,
+      status INTEGER DEFAULT 0,
+      worker_id TEXT,
+      retry_count INTEGER DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      started_at INTEGER,
+      completed_at INTEGER,
+      error TEXT,
+      UNIQUE(search_term, pdf_name)
+    )
+  `);
+  db.run("CREATE TABLE metadata (key TEXT PRIMARY KEY, value TEXT NOT NULL)");
+  db.run(
+    `INSERT INTO pdf_tasks (id, search_term, page_number, pdf_name, pdf_url, file_size, status, created_at)
+     VALUES ('t1', ?, 3, 'a.pdf', 'https://example.com/a.pdf', 100, 2, 0)`,
+    [SEARCH_TERM],
+  );
+  db.close();
+}
+
+describe("migrations", () => {
+  test("brings a version 1 queue up to the current schema", () => {
+    createVersion1Queue();
+    queue = new TaskQueue(downloadDir, SEARCH_TERM);
+
+    expect(queue.getSchemaVersion()).toBe(QUEUE_SCHEMA_VERSION);
+    const [task] = queue.getTasks();
+    expect(task?.status).toBe(2);
+    expect(task?.hitIndex).toBeNull();
+    expect(task?.source).toBeNull();
+    expect(task?.partial).toBeNull();
+    // Pages are derived from the tasks of version 1 queues
+    expect(queue.getPageProgress()).toMatchObject({ total: 1, fetched: 1 });
+  });
+
+  test("refuses a queue from a newer version", () => {
+    queue.setMetadata("schema_version", String(QUEUE_SCHEMA_VERSION + 1));
+    queue.close();
+
+    expect(() => new TaskQueue(downloadDir, SEARCH_TERM)).toThrow(
+      /schema version/,
+    );
+    queue = new TaskQueue(downloadDir, "other");
+  });
+});
+
+describe("read-only queue", () => {
+  test("reads a queue without changing it", () => {
+    queue.insertPdfs([makeTask("a.pdf")]);
+
+    const reader = new TaskQueue(downloadDir, SEARCH_TERM, { readonly: true });
+    try {
+      expect(reader.getProgress().pending).toBe(1);
+      expect(() => reader.claimNextPdf("worker-1")).toThrow();
+    } finally {
+      reader.close();
+    }
+  });
+
+  test("does not create a missing queue", () => {
+    expect(
+      () => new TaskQueue(downloadDir, "missing", { readonly: true }),
+    ).toThrow(/No queue found/);
+    expect(fs.existsSync(getCacheDir(downloadDir, "missing"))).toBe(false);
+  });
+
+  test("reads a queue from an older version without migrating it", () => {
+    createVersion1Queue();
+
+    queue = new TaskQueue(downloadDir, SEARCH_TERM, { readonly: true });
+
+    expect(queue.getTasks()[0]).toMatchObject({
+      pdfName: "a.pdf",
+      status: 2,
+      hitIndex: null,
+    });
+    expect(queue.getPageProgress()).toMatchObject({ total: 1, fetched: 1 });
+    expect(() => queue.claimNextPdf("worker-1")).toThrow();
+
+    const db = new Database(getQueueDbPath(downloadDir, SEARCH_TERM), {
+      readonly: true,
+    });
+    const columns = db.query("PRAGMA table_info(pdf_tasks)").all();
+    db.close();
+    expect(columns).toHaveLength(13);
+  });
+
+  test("refuses a queue from a newer version", () => {
+    queue.setMetadata("schema_version", String(QUEUE_SCHEMA_VERSION + 1));
+
+    expect(
+      () => new TaskQueue(downloadDir, SEARCH_TERM, { readonly: true }),
+    ).toThrow(/Upgrade ef-dl/);
+  });
+});
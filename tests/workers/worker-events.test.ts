@@ -0,0 +1,88 @@
+import { describe, expect, setSystemTime, test } from "bun:test";
+import {
+  createEventLineParser,
+  throttleProgressEvents,
+} from "../../src/workers/worker-events.ts";
+import type { WorkerEvent } from "../../src/workers/types.ts";
+
+const FAILED: WorkerEvent = {
+  type: "failed",
+  workerId: "worker-1",
+  taskId: "t1",
+  error: "HTTP 404",
+};
+
+/** Progress event of a download */
+function progress(bytes: number, totalBytes: number | null): WorkerEvent {
+  return {
+    type: "progress",
+    workerId: "worker-1",
+    taskId: "t1",
+    bytes,
+    totalBytes,
+  };
+}
+
+describe("createEventLineParser", () => {
+  test("parses events split across chunks", () => {
+    const events: WorkerEvent[] = [];
+    const feed = createEventLineParser((event) => events.push(event));
+    const line = JSON.stringify(FAILED) + "\n";
+
+    feed(line.slice(0, 10));
+    expect(events).toEqual([]);
+    feed(Buffer.from(line.slice(10) + line));
+
+    expect(events).toEqual([FAILED, FAILED]);
+  });
+
+  test("skips blank and malformed lines", () => {
+    const events: WorkerEvent[] = [];
+    const feed = createEventLineParser((event) => events.push(event));
+
+    feed(`\n  \nnot json\n{"type":\n${JSON.stringify(FAILED)}\n`);
+
+    expect(events).toEqual([FAILED]);
+  });
+
+  test("does not swallow errors of the event handler", () => {
+    const events: WorkerEvent[] = [];
+    const feed = createEventLineParser((event) => {
+      if (events.push(event) === 1) {
+        throw new Error("handler failed");
+      }
+    });
+    const line = JSON.stringify(FAILED) + "\n";
+
+    expect(() => feed(line + line)).toThrow("handler failed");
+    // The line after the failing one is still in the buffer
+    feed("");
+    expect(events).toEqual([FAILED, FAILED]);
+  });
+});
+
+describe("throttleProgressEvents", () => {
+  test("passes progress at most once per interval, except the final one", () => {
+    const events: WorkerEvent[] = [];
+    const sink = throttleProgressEvents((event) => events.push(event), 500);
+
+    try {
+      setSystemTime(new Date(10_000));
+      sink(progress(1, 10));
+      sink(progress(2, 10));
+      sink(FAILED);
+      sink(progress(10, 10));
+      setSystemTime(new Date(10_600));
+      sink(progress(3, null));
+    } finally {
+      setSystemTime();
+    }
+
+    expect(events).toEqual([
+      progress(1, 10),
+      FAILED,
+      progress(10, 10),
+      progress(3, null),
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { downloadPdf } from "../../src/browserless/browser-client.ts";
+import { getQueueDbPath } from "../../src/utils/layout.ts";
+import { RateLimiter } from "../../src/workers/rate-limiter.ts";
+import { TaskQueue } from "../../src/workers/task-queue.ts";
+import { startLeaseHeartbeat } from "../../src/workers/worker.ts";
+
+const SEARCH_TERM = "term";
+const TIMING = { intervalMs: 10, maxIdleMs: 60 };
+
+let downloadDir: string;
+let queue: TaskQueue;
+let limiter: RateLimiter;
+
+/** Claim the only task of the queue */
+function claim(workerId: string): string {
+  return queue.claimNextPdf(workerId)!.id;
+}
+
+/** Lease expiry of the only task */
+function getLeaseExpiry(): number | null {
+  return queue.getTasks()[0]!.leaseExpiresAt;
+}
+
+/** Move the lease of a task into the past */
+function expireLease(taskId: string): void {
+  const db = new Database(getQueueDbPath(downloadDir, SEARCH_TERM));
+  db.run("UPDATE pdf_tasks SET lease_expires_at = ? WHERE id = ?", [
+    Date.now() - 1,
+    taskId,
+  ]);
+  db.close();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+beforeEach(() => {
+  downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "ef-dl-worker-"));
+  queue = new TaskQueue(downloadDir, SEARCH_TERM);
+  queue.initialize();
+  queue.insertPdfs([
+    {
+      id: "t1",
+      searchTerm: SEARCH_TERM,
+      pageNumber: 1,
+      pdfName: "a.pdf",
+      pdfUrl: "https://example.com/a.pdf",
+      fileSize: 0,
+      hitIndex: 1,
+      source: null,
+    },
+  ]);
+  limiter = new RateLimiter(queue);
+});
+
+afterEach(() => {
+  queue.close();
+  fs.rmSync(downloadDir, { recursive: true, force: true });
+});
+
+describe("startLeaseHeartbeat", () => {
+  test("keeps renewing while the download makes progress", async () => {
+    const taskId = claim("worker-1");
+    const lease = startLeaseHeartbeat(
+      queue,
+      limiter,
+      taskId,
+      "worker-1",
+      TIMING,
+    );
+
+    let renewedAt = getLeaseExpiry()!;
+    try {
+      // Well past the idle limit, but with progress all along
+      for (let i = 0; i < 5; i++) {
+        for (let j = 0; j < 5; j++) {
+          lease.touch();
+          await sleep(8);
+        }
+        expect(getLeaseExpiry()!).toBeGreaterThan(renewedAt);
+        renewedAt = getLeaseExpiry()!;
+      }
+    } finally {
+      lease.stop();
+    }
+  });
+
+  test("stops renewing once the download makes no progress", async () => {
+    const taskId = claim("worker-1");
+    const lease = startLeaseHeartbeat(
+      queue,
+      limiter,
+      taskId,
+      "worker-1",
+      TIMING,
+    );
+
+    try {
+      await sleep(TIMING.maxIdleMs + 30);
+      const lastRenewal = getLeaseExpiry();
+      await sleep(50);
+
+      expect(getLeaseExpiry()).toBe(lastRenewal);
+      expect(lease.signal.aborted).toBe(false);
+    } finally {
+      lease.stop();
+    }
+  });
+
+  test("stops a download whose lease expired and was reclaimed", async () => {
+    const chunk = new Uint8Array(1024).fill(65);
+    const server = Bun.serve({
+      port: 0,
+      fetch: () =>
+        new Response(
+          new ReadableStream({
+            async pull(controller) {
+              await sleep(5);
+              controller.enqueue(chunk);
+            },
+          }),
+          {
+            headers: {
+              "Content-Type": "application/pdf",
+              "Content-Length": String(1000 * chunk.length),
+            },
+          },
+        ),
+    });
+    const outputDir = path.join(downloadDir, "files");
+    const taskId = claim("worker-1");
+    const lease = startLeaseHeartbeat(
+      queue,
+      limiter,
+      taskId,
+      "worker-1",
+      TIMING,
+    );
+    let partialReported = false;
+
+    try {
+      const download = downloadPdf(
+        `http://localhost:${server.port}/a.pdf`,
+        outputDir,
+        "a.pdf",
+        {
+          onProgress: () => lease.touch(),
+          onPartial: () => {
+            partialReported = true;
+          },
+          signal: lease.signal,
+        },
+      );
+
+      // The worker froze long enough for its lease to expire, and another
+      // worker took the task over while bytes were still arriving
+      await sleep(30);
+      expireLease(taskId);
+      expect(claim("worker-2")).toBe(taskId);
+
+      await expect(download).rejects.toThrow(/lease lost/);
+    } finally {
+      lease.stop();
+      server.stop(true);
+    }
+
+    expect(lease.signal.aborted).toBe(true);
+    // The `.part` file now belongs to worker-2: not removed, not renamed
+    expect(fs.existsSync(path.join(outputDir, "a.pdf.part"))).toBe(true);
+    expect(fs.existsSync(path.join(outputDir, "a.pdf"))).toBe(false);
+    expect(partialReported).toBe(false);
+    expect(queue.getTasks()[0]?.workerId).toBe("worker-2");
+  });
+});